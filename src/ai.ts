@@ -1,40 +1,274 @@
-import OpenAI from 'openai';
-import { ScanResult } from './types';
+import OpenAI, { AzureOpenAI } from 'openai';
+import { AIProviderName, AISettings, ScanResult } from './types';
 import {
   AI_PROMPT,
   AI_SYSTEM_MESSAGE,
-  AI_MODEL,
+  AI_PROVIDERS,
+  AI_DEFAULT_PROVIDER,
+  AI_DEFAULT_MODELS,
+  AI_API_KEY_ENV,
   AI_MAX_TOKENS,
   AI_TEMPERATURE,
+  ANTHROPIC_BASE_URL,
+  ANTHROPIC_API_VERSION,
+  AZURE_OPENAI_ENDPOINT_ENV,
+  AZURE_OPENAI_API_VERSION,
 } from './constants';
 
+export class AIConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIConfigError';
+  }
+}
+
+export interface AIOptions {
+  provider?: string;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export interface AIRequest {
+  system: string;
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+interface AIProvider {
+  label: string;
+  requiresKey: boolean;
+  requiresBaseUrl: boolean;
+  /** Catches malformed keys before the scan runs */
+  validateKey?: (apiKey: string) => boolean;
+  complete: (settings: AISettings, request: AIRequest) => Promise<string>;
+}
+
+const PROVIDERS: Record<AIProviderName, AIProvider> = {
+  openai: {
+    label: 'OpenAI',
+    requiresKey: true,
+    requiresBaseUrl: false,
+    validateKey: (apiKey) => apiKey.startsWith('sk-') && apiKey.length > 20,
+    complete: (settings, request) =>
+      completeChat(
+        new OpenAI({ apiKey: settings.apiKey, baseURL: settings.baseUrl }),
+        settings.model,
+        request
+      ),
+  },
+  anthropic: {
+    label: 'Anthropic',
+    requiresKey: true,
+    requiresBaseUrl: false,
+    validateKey: (apiKey) => apiKey.startsWith('sk-ant-') && apiKey.length > 20,
+    complete: completeAnthropic,
+  },
+  azure: {
+    label: 'Azure OpenAI',
+    requiresKey: true,
+    requiresBaseUrl: true,
+    validateKey: (apiKey) => /^[A-Za-z0-9]{32,}$/.test(apiKey),
+    complete: (settings, request) =>
+      completeChat(
+        new AzureOpenAI({
+          apiKey: settings.apiKey,
+          endpoint: settings.baseUrl,
+          deployment: settings.model,
+          apiVersion: AZURE_OPENAI_API_VERSION,
+        }),
+        settings.model,
+        request
+      ),
+  },
+  'openai-compatible': {
+    label: 'OpenAI-compatible server',
+    requiresKey: false,
+    requiresBaseUrl: true,
+    complete: (settings, request) =>
+      completeChat(
+        new OpenAI({
+          // Local servers such as Ollama ignore the key, but the client needs one
+          apiKey: settings.apiKey || 'none',
+          baseURL: settings.baseUrl,
+        }),
+        settings.model,
+        request
+      ),
+  },
+};
+
+/**
+ * Resolves the provider, model, key and base URL from the command line and
+ * environment, and checks them before the scan runs. Keys fall back to the
+ * provider's environment variable; the OpenAI-compatible provider only uses
+ * an explicit `--api-key`, so an OpenAI key is never sent to another server.
+ */
+export function resolveAISettings(options: AIOptions): AISettings {
+  const provider = (options.provider || AI_DEFAULT_PROVIDER) as AIProviderName;
+
+  if (!AI_PROVIDERS.includes(provider)) {
+    throw new AIConfigError(
+      `Unknown AI provider "${provider}". Use one of: ${AI_PROVIDERS.join(
+        ', '
+      )}`
+    );
+  }
+
+  const spec = PROVIDERS[provider];
+  const keyEnv = AI_API_KEY_ENV[provider];
+  const apiKey = options.apiKey || (keyEnv ? process.env[keyEnv] : undefined);
+  const baseUrl =
+    options.baseUrl ||
+    (provider === 'azure' ? process.env[AZURE_OPENAI_ENDPOINT_ENV] : undefined);
+  const model = options.model || AI_DEFAULT_MODELS[provider];
+
+  if (spec.requiresKey && !apiKey) {
+    throw new AIConfigError(
+      `${spec.label} requires an API key. Use --api-key${
+        keyEnv ? ` or set ${keyEnv}` : ''
+      }`
+    );
+  }
+
+  if (apiKey && spec.validateKey && !spec.validateKey(apiKey)) {
+    throw new AIConfigError(`Invalid ${spec.label} API key format`);
+  }
+
+  if (spec.requiresBaseUrl && !baseUrl) {
+    throw new AIConfigError(
+      provider === 'azure'
+        ? `${spec.label} requires --ai-base-url or ${AZURE_OPENAI_ENDPOINT_ENV}`
+        : `${spec.label} requires --ai-base-url`
+    );
+  }
+
+  if (baseUrl && !isHttpUrl(baseUrl)) {
+    throw new AIConfigError(`--ai-base-url must be an http(s) URL: ${baseUrl}`);
+  }
+
+  if (!model) {
+    throw new AIConfigError(
+      provider === 'azure'
+        ? `${spec.label} requires --ai-model set to the deployment name`
+        : `${spec.label} requires --ai-model`
+    );
+  }
+
+  return { provider, model, apiKey, baseUrl };
+}
+
 export async function getAISuggestions(
   result: ScanResult,
-  apiKey: string
+  settings: AISettings
 ): Promise<string> {
-  const openai = new OpenAI({ apiKey });
-  const prompt = buildPrompt(result);
-
   try {
-    const response = await openai.chat.completions.create({
-      model: AI_MODEL,
-      messages: [
-        { role: 'system', content: AI_SYSTEM_MESSAGE },
-        { role: 'user', content: prompt },
-      ],
-      max_tokens: AI_MAX_TOKENS,
+    const suggestions = await requestCompletion(settings, {
+      system: AI_SYSTEM_MESSAGE,
+      prompt: buildPrompt(result),
+      maxTokens: AI_MAX_TOKENS,
       temperature: AI_TEMPERATURE,
     });
 
-    return (
-      response.choices[0]?.message?.content ||
-      'Unable to generate AI suggestions.'
-    );
+    return suggestions || 'Unable to generate AI suggestions.';
   } catch (error) {
-    return handleError(error);
+    return describeAIError(error, settings);
   }
 }
 
+/**
+ * Sends one request to the configured provider and returns the text of the
+ * reply. Errors are thrown; `describeAIError` turns them into a message.
+ */
+export function requestCompletion(
+  settings: AISettings,
+  request: AIRequest
+): Promise<string> {
+  return PROVIDERS[settings.provider].complete(settings, request);
+}
+
+export function describeAIError(error: unknown, settings: AISettings): string {
+  const { label } = PROVIDERS[settings.provider];
+
+  if (error instanceof Error) {
+    const status = (error as { status?: number }).status;
+
+    if (status === 401 || error.message.includes('API key')) {
+      return `Invalid API key. Please check your ${label} API key.`;
+    }
+
+    if (status === 429 || error.message.includes('quota')) {
+      return `API quota or rate limit exceeded. Please check your ${label} account.`;
+    }
+
+    return `AI analysis failed: ${error.message}`;
+  }
+
+  return 'AI analysis failed. Please try again.';
+}
+
+// Helper functions
+
+async function completeChat(
+  client: OpenAI,
+  model: string,
+  request: AIRequest
+): Promise<string> {
+  const response = await client.chat.completions.create({
+    model,
+    messages: [
+      { role: 'system', content: request.system },
+      { role: 'user', content: request.prompt },
+    ],
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+  });
+
+  return response.choices[0]?.message?.content || '';
+}
+
+/**
+ * Calls the Anthropic Messages API directly, which keeps the SDK out of the
+ * dependencies.
+ */
+async function completeAnthropic(
+  settings: AISettings,
+  request: AIRequest
+): Promise<string> {
+  const baseUrl = (settings.baseUrl || ANTHROPIC_BASE_URL).replace(/\/+$/, '');
+  const response = await fetch(`${baseUrl}/v1/messages`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-api-key': settings.apiKey || '',
+      'anthropic-version': ANTHROPIC_API_VERSION,
+    },
+    body: JSON.stringify({
+      model: settings.model,
+      system: request.system,
+      messages: [{ role: 'user', content: request.prompt }],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    }),
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw Object.assign(
+      new Error(
+        `${response.status} ${body?.error?.message || response.statusText}`
+      ),
+      { status: response.status }
+    );
+  }
+
+  return (body.content || [])
+    .filter((block: { type: string }) => block.type === 'text')
+    .map((block: { text: string }) => block.text)
+    .join('');
+}
+
 function buildPrompt(result: ScanResult): string {
   const issuesSummary = result.issues
     .slice(0, 20)
@@ -53,22 +287,10 @@ function buildPrompt(result: ScanResult): string {
     .replace('{{issues}}', issuesSummary);
 }
 
-function handleError(error: unknown): string {
-  if (error instanceof Error) {
-    if (error.message.includes('API key')) {
-      return 'Invalid API key. Please check your OpenAI API key.';
-    }
-
-    if (error.message.includes('quota')) {
-      return 'API quota exceeded. Please check your OpenAI account.';
-    }
-
-    return `AI analysis failed: ${error.message}`;
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
   }
-
-  return 'AI analysis failed. Please try again.';
-}
-
-export function validateApiKey(apiKey: string): boolean {
-  return apiKey.startsWith('sk-') && apiKey.length > 20;
 }
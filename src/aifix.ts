@@ -0,0 +1,296 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AISettings, Issue } from './types';
+import {
+  AI_FIX_PROMPT,
+  AI_FIX_SYSTEM_MESSAGE,
+  AI_FIX_MAX_ISSUES,
+  AI_FIX_CONTEXT_LINES,
+  AI_FIX_MAX_TOKENS,
+  AI_FIX_TEMPERATURE,
+  CODE_FILE_PATTERN,
+  SEVERITY_SECTIONS,
+} from './constants';
+import { requestCompletion, describeAIError } from './ai';
+import { createPatch } from './fixer';
+import { parseFile, hasSyntaxErrors } from './scanners/ast';
+
+/**
+ * A proposed rewrite of lines `start`-`end` (1-based, inclusive) of the
+ * issue's file.
+ */
+export interface AIFixProposal {
+  issue: Issue;
+  start: number;
+  end: number;
+  replacement: string[];
+}
+
+export interface AIFixRun {
+  proposals: AIFixProposal[];
+  /** Why the run stopped early, if it did */
+  error?: string;
+}
+
+interface CodeWindow {
+  start: number;
+  end: number;
+  lines: string[];
+  /** Every line of the file, without the trailing newline's empty entry */
+  fileLines: string[];
+  trailingNewline: boolean;
+}
+
+/**
+ * The issues worth a fix request: critical issues and warnings on a line of
+ * source code, most severe first, at most `AI_FIX_MAX_ISSUES`.
+ */
+export function selectAIFixIssues(issues: Issue[]): Issue[] {
+  return SEVERITY_SECTIONS.filter(({ severity }) => severity !== 'info')
+    .flatMap(({ severity }) =>
+      issues.filter((issue) => issue.severity === severity)
+    )
+    .filter(
+      (issue) => issue.file && issue.line && CODE_FILE_PATTERN.test(issue.file)
+    )
+    .slice(0, AI_FIX_MAX_ISSUES);
+}
+
+/**
+ * Asks the model for a fix per issue, sending the code around the issue
+ * and the project's dependencies. The model returns replacement lines
+ * rather than a diff, which models often get wrong; the diff is built here
+ * so it always applies. Replacements that do not parse are discarded.
+ * Results are attached to each issue as `aiFix`. A failed request stops
+ * the run, since the remaining ones would fail the same way.
+ */
+export async function proposeAIFixes(
+  projectPath: string,
+  issues: Issue[],
+  settings: AISettings,
+  onProgress?: (issue: Issue, index: number) => void
+): Promise<AIFixRun> {
+  const proposals: AIFixProposal[] = [];
+
+  for (const [index, issue] of issues.entries()) {
+    onProgress?.(issue, index);
+
+    const window = readCodeWindow(projectPath, issue);
+    if (!window) continue;
+
+    let reply: string;
+    try {
+      reply = await requestCompletion(settings, {
+        system: AI_FIX_SYSTEM_MESSAGE,
+        prompt: buildFixPrompt(projectPath, issue, window),
+        maxTokens: AI_FIX_MAX_TOKENS,
+        temperature: AI_FIX_TEMPERATURE,
+      });
+    } catch (error) {
+      return { proposals, error: describeAIError(error, settings) };
+    }
+
+    const fix = parseReply(reply);
+    if (!fix) continue;
+
+    const replacement = fix.code.replace(/\r\n/g, '\n').replace(/\n$/, '');
+    if (replacement === window.lines.join('\n')) {
+      issue.aiFix = { explanation: fix.explanation };
+      continue;
+    }
+
+    const original = joinLines(window.fileLines, window.trailingNewline);
+    const fixed = joinLines(
+      [
+        ...window.fileLines.slice(0, window.start - 1),
+        ...replacement.split('\n'),
+        ...window.fileLines.slice(window.end),
+      ],
+      window.trailingNewline
+    );
+
+    if (hasSyntaxErrors(parseFile(issue.file!, fixed))) {
+      issue.aiFix = {
+        explanation: `${fix.explanation} (The proposed code did not parse and was discarded.)`,
+      };
+      continue;
+    }
+
+    issue.aiFix = {
+      explanation: fix.explanation,
+      patch: createPatch(issue.file!, original, fixed),
+    };
+    proposals.push({
+      issue,
+      start: window.start,
+      end: window.end,
+      replacement: replacement.split('\n'),
+    });
+  }
+
+  return { proposals };
+}
+
+/**
+ * Combines the proposals into one patch with a section per file, which
+ * `git apply` accepts from the project directory. When two proposals touch
+ * overlapping lines, only the one for the more severe issue is kept.
+ */
+export function formatAIFixPatch(
+  projectPath: string,
+  proposals: AIFixProposal[]
+): string {
+  const byFile = new Map<string, AIFixProposal[]>();
+
+  for (const proposal of proposals) {
+    const file = proposal.issue.file!;
+    byFile.set(file, [...(byFile.get(file) || []), proposal]);
+  }
+
+  return [...byFile.entries()]
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([file, fileProposals]) => {
+      const content = fs.readFileSync(path.join(projectPath, file), 'utf-8');
+      const trailingNewline = content.endsWith('\n');
+      const lines = splitLines(content);
+      const accepted = fileProposals.filter(
+        (proposal, index) =>
+          !fileProposals
+            .slice(0, index)
+            .some(
+              (other) =>
+                proposal.start <= other.end && other.start <= proposal.end
+            )
+      );
+
+      // Bottom-up, so earlier line numbers stay valid
+      for (const proposal of accepted.sort((a, b) => b.start - a.start)) {
+        lines.splice(
+          proposal.start - 1,
+          proposal.end - proposal.start + 1,
+          ...proposal.replacement
+        );
+      }
+
+      return createPatch(file, content, joinLines(lines, trailingNewline));
+    })
+    .join('');
+}
+
+// Helper functions
+
+function readCodeWindow(projectPath: string, issue: Issue): CodeWindow | null {
+  let content: string;
+  try {
+    content = fs.readFileSync(path.join(projectPath, issue.file!), 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const fileLines = splitLines(content);
+  const start = Math.max(1, issue.line! - AI_FIX_CONTEXT_LINES);
+  const end = Math.min(fileLines.length, issue.line! + AI_FIX_CONTEXT_LINES);
+
+  if (start > end) return null;
+
+  return {
+    start,
+    end,
+    lines: fileLines.slice(start - 1, end),
+    fileLines,
+    trailingNewline: content.endsWith('\n'),
+  };
+}
+
+function buildFixPrompt(
+  projectPath: string,
+  issue: Issue,
+  window: CodeWindow
+): string {
+  const values: Record<string, string> = {
+    severity: issue.severity.toUpperCase(),
+    title: issue.title,
+    rule: issue.rule,
+    message: issue.message,
+    suggestion: issue.suggestion ? `Suggestion: ${issue.suggestion}` : '',
+    file: issue.file!,
+    start: String(window.start),
+    end: String(window.end),
+    line: String(issue.line),
+    code: window.lines.join('\n'),
+    dependencies: describeDependencies(projectPath, issue.file!),
+  };
+
+  return AI_FIX_PROMPT.replace(/\{\{(\w+)\}\}/g, (_, key) => values[key]);
+}
+
+/**
+ * Lists the dependencies from the package.json closest to the file, so the
+ * model knows which React and React Native versions and libraries exist.
+ */
+function describeDependencies(projectPath: string, file: string): string {
+  let dir = path.dirname(path.join(projectPath, file));
+
+  while (dir.startsWith(projectPath)) {
+    const packageJsonPath = path.join(dir, 'package.json');
+
+    if (fs.existsSync(packageJsonPath)) {
+      try {
+        const pkg = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+        const dependencies = {
+          ...pkg.dependencies,
+          ...pkg.devDependencies,
+        } as Record<string, string>;
+
+        return (
+          Object.entries(dependencies)
+            .map(([name, version]) => `- ${name}@${version}`)
+            .join('\n') || '(none)'
+        );
+      } catch {
+        return '(unreadable)';
+      }
+    }
+
+    if (dir === projectPath) break;
+    dir = path.dirname(dir);
+  }
+
+  return '(none)';
+}
+
+/**
+ * Reads `{"explanation", "code"}` from the reply, tolerating a Markdown
+ * fence or text around the object.
+ */
+function parseReply(
+  reply: string
+): { explanation: string; code: string } | null {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start === -1 || end < start) return null;
+
+  try {
+    const parsed = JSON.parse(reply.slice(start, end + 1));
+
+    if (
+      typeof parsed.explanation !== 'string' ||
+      typeof parsed.code !== 'string'
+    ) {
+      return null;
+    }
+
+    return { explanation: parsed.explanation.trim(), code: parsed.code };
+  } catch {
+    return null;
+  }
+}
+
+function splitLines(content: string): string[] {
+  const lines = content.split('\n');
+  return content.endsWith('\n') ? lines.slice(0, -1) : lines;
+}
+
+function joinLines(lines: string[], trailingNewline: boolean): string {
+  return lines.join('\n') + (trailingNewline ? '\n' : '');
+}
@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { Baseline, BaselineEntry, Issue } from './types';
+import { BASELINE_VERSION } from './constants';
+
+export class BaselineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BaselineError';
+  }
+}
+
+export interface BaselineComparison {
+  newIssues: Issue[];
+  existingIssues: Issue[];
+  fixed: BaselineEntry[];
+}
+
+/**
+ * Fingerprints are built from the rule, the file and the whitespace-normalized
+ * source line, so they survive code moving up or down. Issues without a
+ * line, including workspace dependency issues placed on a package's
+ * manifest, fall back to their title (e.g. "Heavy dependency: moment").
+ */
+export function createBaseline(projectPath: string, issues: Issue[]): Baseline {
+  const fingerprints = fingerprintIssues(projectPath, issues);
+
+  return {
+    version: BASELINE_VERSION,
+    createdAt: new Date().toISOString(),
+    issues: issues.map((issue, index) => ({
+      fingerprint: fingerprints[index],
+      rule: issue.rule,
+      title: issue.title,
+      file: issue.file,
+    })),
+  };
+}
+
+export function writeBaseline(filePath: string, baseline: Baseline): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(baseline, null, 2)}\n`);
+}
+
+export function readBaseline(filePath: string): Baseline {
+  if (!fs.existsSync(filePath)) {
+    throw new BaselineError(`Baseline file not found: ${filePath}`);
+  }
+
+  let baseline: Baseline;
+  try {
+    baseline = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new BaselineError(`Failed to parse baseline: ${reason}`);
+  }
+
+  if (
+    baseline.version !== BASELINE_VERSION ||
+    !Array.isArray(baseline.issues)
+  ) {
+    throw new BaselineError(
+      `Unsupported baseline format in ${path.basename(filePath)}`
+    );
+  }
+
+  return baseline;
+}
+
+/**
+ * Splits issues into those already recorded in the baseline and new ones.
+ * Baseline entries with no matching issue are reported as fixed. Identical
+ * fingerprints are matched one-to-one, so a second copy of a known issue
+ * still counts as new.
+ */
+export function compareWithBaseline(
+  projectPath: string,
+  issues: Issue[],
+  baseline: Baseline
+): BaselineComparison {
+  const fingerprints = fingerprintIssues(projectPath, issues);
+  const remaining = new Map<string, BaselineEntry[]>();
+
+  for (const entry of baseline.issues) {
+    const entries = remaining.get(entry.fingerprint) || [];
+    entries.push(entry);
+    remaining.set(entry.fingerprint, entries);
+  }
+
+  const newIssues: Issue[] = [];
+  const existingIssues: Issue[] = [];
+
+  issues.forEach((issue, index) => {
+    const entries = remaining.get(fingerprints[index]);
+
+    if (entries && entries.length > 0) {
+      entries.pop();
+      existingIssues.push(issue);
+    } else {
+      newIssues.push(issue);
+    }
+  });
+
+  const fixed = [...remaining.values()].flat();
+
+  return { newIssues, existingIssues, fixed };
+}
+
+// Helper functions
+
+function fingerprintIssues(projectPath: string, issues: Issue[]): string[] {
+  const fileLines = new Map<string, string[]>();
+
+  return issues.map((issue) => {
+    let anchor = issue.title;
+
+    if (issue.file && issue.line !== undefined) {
+      if (!fileLines.has(issue.file)) {
+        fileLines.set(issue.file, readLines(projectPath, issue.file));
+      }
+
+      const line = fileLines.get(issue.file)?.[issue.line - 1];
+      if (line !== undefined) {
+        anchor = normalizeSnippet(line);
+      }
+    }
+
+    return createHash('sha1')
+      .update(`${issue.rule}\0${issue.file || ''}\0${anchor}`)
+      .digest('hex');
+  });
+}
+
+function readLines(projectPath: string, file: string): string[] {
+  try {
+    return fs.readFileSync(path.join(projectPath, file), 'utf-8').split('\n');
+  } catch {
+    return [];
+  }
+}
+
+function normalizeSnippet(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
@@ -0,0 +1,221 @@
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { Issue } from './types';
+import { GIT_MAX_BUFFER, LOCKFILES } from './constants';
+
+export class GitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Changed files relative to the project, with their added or modified
+ * lines. `null` means every line counts as changed: new untracked files
+ * and binary files such as images.
+ */
+export type ChangeSet = Map<string, LineRange[] | null>;
+
+export interface ChangeOptions {
+  since?: string;
+  staged: boolean;
+}
+
+/**
+ * Asks git which files changed. `since` compares the working tree with the
+ * merge base of the ref and HEAD, so commits that landed on the ref later
+ * are not counted, and includes untracked files. `staged` compares the
+ * index with HEAD, as a pre-commit hook sees it. Deleted files are left out.
+ */
+export function readChanges(
+  projectPath: string,
+  options: ChangeOptions
+): ChangeSet {
+  git(projectPath, ['rev-parse', '--is-inside-work-tree']);
+
+  const target = options.staged
+    ? ['--cached']
+    : [mergeBase(projectPath, options.since || 'HEAD')];
+  const diffArgs = ['diff', '--relative', '--diff-filter=ACMR', ...target];
+  const changes: ChangeSet = new Map();
+
+  const names = git(projectPath, [...diffArgs, '--name-only', '-z']);
+  for (const file of names.split('\0').filter(Boolean)) {
+    changes.set(path.normalize(file), null);
+  }
+
+  const diff = git(projectPath, [
+    ...diffArgs,
+    '--unified=0',
+    '--no-color',
+    '--no-ext-diff',
+    '--src-prefix=a/',
+    '--dst-prefix=b/',
+  ]);
+  for (const [file, ranges] of parseHunks(diff)) {
+    if (changes.has(file)) changes.set(file, ranges);
+  }
+
+  if (!options.staged) {
+    const untracked = git(projectPath, [
+      'ls-files',
+      '--others',
+      '--exclude-standard',
+      '-z',
+    ]);
+    for (const file of untracked.split('\0').filter(Boolean)) {
+      changes.set(path.normalize(file), null);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * The changed files inside a workspace package, relative to the package.
+ */
+export function scopeChanges(
+  changes: ChangeSet,
+  relativePath: string
+): Set<string> {
+  if (!relativePath) return new Set(changes.keys());
+
+  const prefix = `${path.normalize(relativePath)}${path.sep}`;
+
+  return new Set(
+    [...changes.keys()]
+      .filter((file) => file.startsWith(prefix))
+      .map((file) => file.slice(prefix.length))
+  );
+}
+
+/**
+ * Package-level checks only need to run again when the manifest or a
+ * lockfile changed, in the package itself or at the workspace root.
+ */
+export function hasDependencyChanges(
+  files: Set<string>,
+  rootFiles: Set<string>
+): boolean {
+  return (
+    files.has('package.json') ||
+    LOCKFILES.some(({ file }) => files.has(file) || rootFiles.has(file))
+  );
+}
+
+/**
+ * Drops issues whose line falls outside the changed hunks. Issues without
+ * a line, or in files whose lines all count as changed, are kept.
+ */
+export function filterChangedLines(
+  issues: Issue[],
+  changes: ChangeSet
+): Issue[] {
+  return issues.filter((issue) => {
+    if (!issue.file || issue.line === undefined) return true;
+
+    const ranges = changes.get(path.normalize(issue.file));
+    if (ranges === undefined) return false;
+    if (ranges === null) return true;
+
+    return ranges.some(
+      ({ start, end }) => issue.line! >= start && issue.line! <= end
+    );
+  });
+}
+
+/**
+ * The checked-out commit and branch, or null outside a git repository or
+ * before the first commit. `branch` is undefined on a detached HEAD, as in
+ * most CI checkouts, unless the CI exposes it.
+ */
+export function readGitHead(
+  projectPath: string
+): { sha: string; branch?: string } | null {
+  try {
+    const sha = git(projectPath, ['rev-parse', 'HEAD']).trim();
+    const branch = git(projectPath, [
+      'rev-parse',
+      '--abbrev-ref',
+      'HEAD',
+    ]).trim();
+
+    return {
+      sha,
+      branch:
+        branch !== 'HEAD'
+          ? branch
+          : process.env.GITHUB_REF_NAME || process.env.CI_COMMIT_BRANCH,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Helper functions
+
+function mergeBase(projectPath: string, ref: string): string {
+  try {
+    return git(projectPath, ['merge-base', ref, 'HEAD']).trim();
+  } catch {
+    throw new GitError(
+      `Cannot compare with "${ref}": not a known commit, branch or tag`
+    );
+  }
+}
+
+function git(projectPath: string, args: string[]): string {
+  try {
+    return execFileSync('git', ['-c', 'core.quotePath=false', ...args], {
+      cwd: projectPath,
+      encoding: 'utf-8',
+      maxBuffer: GIT_MAX_BUFFER,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+  } catch (error) {
+    const stderr = String((error as { stderr?: string }).stderr || '');
+
+    if (/not a git repository/i.test(stderr)) {
+      throw new GitError(
+        '--changed-since and --staged require a git repository'
+      );
+    }
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new GitError('--changed-since and --staged require git on PATH');
+    }
+
+    throw new GitError(`git ${args[0]} failed: ${stderr.trim()}`);
+  }
+}
+
+/**
+ * Reads the new-side line ranges from a `--unified=0` diff. Hunks that only
+ * delete lines add no range.
+ */
+function parseHunks(diff: string): Map<string, LineRange[]> {
+  const hunks = new Map<string, LineRange[]>();
+  let current: LineRange[] | undefined;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      current = [];
+      hunks.set(path.normalize(line.slice(4).replace(/^b\//, '')), current);
+      continue;
+    }
+
+    const match = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (!match || !current) continue;
+
+    const start = Number(match[1]);
+    const count = match[2] === undefined ? 1 : Number(match[2]);
+    if (count > 0) current.push({ start, end: start + count - 1 });
+  }
+
+  return hunks;
+}
@@ -6,68 +6,311 @@ import chalk from 'chalk';
 import { scanDependencies } from './scanners/dependencies';
 import { scanAssets } from './scanners/assets';
 import { scanCode } from './scanners/code';
-import { getAISuggestions, validateApiKey } from './ai';
+import { getAISuggestions, resolveAISettings, AIConfigError } from './ai';
+import { selectAIFixIssues, proposeAIFixes, formatAIFixPatch } from './aifix';
+import {
+  loadConfig,
+  applyRuleSettings,
+  validateRuleIds,
+  ConfigError,
+} from './config';
+import {
+  loadPlugins,
+  runPlugin,
+  listProjectFiles,
+  PluginError,
+} from './plugins';
+import { applySuppressions } from './suppressions';
+import { calculateResult, mergeCoverage } from './scoring';
+import { watchProject } from './watch';
+import {
+  appendHistory,
+  createHistoryEntry,
+  readHistory,
+  findRegression,
+  Regression,
+  HistoryError,
+} from './history';
+import { readReport, compareReports, CompareError } from './compare';
+import { evaluatePolicy, validateFailOn } from './policy';
+import { collectFixes, writeFixes, formatFixDiff } from './fixer';
+import {
+  readChanges,
+  scopeChanges,
+  hasDependencyChanges,
+  filterChangedLines,
+  ChangeSet,
+  GitError,
+} from './changes';
+import {
+  detectWorkspaces,
+  getRootPackage,
+  excludePackages,
+  tagPackageIssues,
+  WorkspaceError,
+} from './workspaces';
+import {
+  createBaseline,
+  writeBaseline,
+  readBaseline,
+  compareWithBaseline,
+  BaselineError,
+} from './baseline';
 import {
   printHeader,
   printScore,
   printIssues,
   printAISuggestions,
-  printJSON,
+  formatJSON,
   printFooter,
+  printBaseline,
+  printPackages,
+  printFixes,
+  printHistory,
+  printComparison,
+  printPolicy,
 } from './reporter';
-import { Issue, ScanResult, ScanOptions } from './types';
 import {
-  SCORE_CRITICAL_PENALTY,
-  SCORE_WARNING_PENALTY,
-  SCORE_INFO_PENALTY,
-  SCORE_BASE_CHECKS,
+  Issue,
+  Category,
+  ScanResult,
+  ScanOptions,
+  ScanCoverage,
+  ScanConfig,
+  BaselineSummary,
+  OutputFormat,
+  PerfScanPlugin,
+  WorkspacePackage,
+  AppliedFix,
+  ReportComparison,
+  PolicyConfig,
+} from './types';
+import {
+  OUTPUT_FORMATS,
+  COMPARE_FORMATS,
+  AI_PROVIDERS,
+  AI_DEFAULT_PROVIDER,
+  TOOL_NAME,
+  TOOL_VERSION,
+  HISTORY_FILE,
+  HISTORY_LIMIT,
+  EXIT_POLICY_FAILURE,
+  EXIT_INVALID_INPUT,
+  EXIT_SCANNER_ERROR,
 } from './constants';
+import { formatSARIF } from './formatters/sarif';
+import { formatHTML } from './formatters/html';
+import {
+  formatMarkdown,
+  formatComparisonMarkdown,
+} from './formatters/markdown';
+import { formatGitHub } from './formatters/github';
 
-const program = new Command();
+interface ScanTarget {
+  path: string;
+  config: ScanConfig;
+  label?: string;
+  /** Changed files relative to `path`, when only those are scanned */
+  changedFiles?: Set<string>;
+  dependenciesChanged?: boolean;
+}
+
+interface ProjectScan {
+  issues: Issue[];
+  /** Per package name, '' for a single project */
+  suppressed: Map<string, number>;
+  coverage: Map<string, ScanCoverage>;
+  errors: PluginError[];
+  packages: WorkspacePackage[];
+}
+
+const program = new Command()
+  .enablePositionalOptions()
+  .exitOverride((error) => {
+    // Usage errors are invalid input; help and --version exit with 0
+    process.exit(error.exitCode === 0 ? 0 : EXIT_INVALID_INPUT);
+  });
 
 program
-  .name('ai-perf-scan')
+  .name(TOOL_NAME)
   .description('AI-powered performance scanner for React & React Native apps')
-  .version('1.0.0')
+  .version(TOOL_VERSION)
   .argument('[path]', 'Path to project directory', '.')
   .option('--ai', 'Enable AI-powered suggestions (requires API key)')
-  .option('--api-key <key>', 'OpenAI API key (or set OPENAI_API_KEY env var)')
+  .option(
+    '--api-key <key>',
+    'API key for the AI provider (or set OPENAI_API_KEY, ANTHROPIC_API_KEY or AZURE_OPENAI_API_KEY)'
+  )
+  .option(
+    '--ai-provider <provider>',
+    `AI provider: ${AI_PROVIDERS.join(', ')}`,
+    AI_DEFAULT_PROVIDER
+  )
+  .option('--ai-model <model>', 'Model name (the deployment name for Azure)')
+  .option(
+    '--ai-base-url <url>',
+    'API base URL, e.g. http://localhost:11434/v1 for Ollama'
+  )
+  .option(
+    '--ai-fix',
+    'Ask the AI provider for a patch per critical/warning issue'
+  )
+  .option(
+    '--ai-fix-patch <file>',
+    'Write the AI patches to one file for git apply (implies --ai-fix)'
+  )
   .option('-v, --verbose', 'Show detailed output including all info items')
-  .option('--json', 'Output results as JSON')
+  .option('--json', 'Output results as JSON (same as --format json)')
+  .option(
+    '-f, --format <format>',
+    `Output format: ${OUTPUT_FORMATS.join(', ')}`,
+    'console'
+  )
+  .option(
+    '-c, --config <file>',
+    'Path to config file (default: perf-scan.config.{js,json} or package.json "perfScan")'
+  )
+  .option(
+    '-o, --output <file>',
+    'Write the report to a file (non-console formats)'
+  )
+  .option(
+    '--package <name>',
+    'Only scan this workspace package (repeatable)',
+    collect,
+    []
+  )
+  .option('--changed-since <ref>', 'Only scan files changed since a git ref')
+  .option('--staged', 'Only scan files staged in git (for pre-commit hooks)')
+  .option(
+    '--only-changed-lines',
+    'With --changed-since or --staged, drop issues outside changed lines'
+  )
+  .option('--record-history', `Append the score to ${HISTORY_FILE}`)
+  .option(
+    '--fail-on-regression <points>',
+    'Fail if the score dropped more than <points> since the last main-branch run'
+  )
+  .option('--watch', 'Re-scan changed files until interrupted')
+  .option('--fix', 'Apply safe automatic fixes, then scan again')
+  .option('--fix-dry-run', 'Print automatic fixes as a unified diff')
+  .option(
+    '--fail-on <level>',
+    'Fail on issues at this severity or above, optionally per category ' +
+      '(e.g. warning:asset, repeatable, "none" to disable)',
+    collect
+  )
+  .option('--min-score <score>', 'Fail if the score is below <score>')
+  .option(
+    '--max-warnings <count>',
+    'Fail if there are more than <count> warnings'
+  )
+  .option('--never-fail', 'Report policy violations but always exit with 0')
+  .option('--baseline <file>', 'Only report issues not recorded in baseline')
+  .option('--write-baseline <file>', 'Record current issues as a baseline')
   .action(async (projectPath: string, options: Record<string, unknown>) => {
     const scanOptions = parseOptions(projectPath, options);
 
     if (!scanOptions) return;
 
-    if (!scanOptions.json) {
+    if (scanOptions.fixDryRun) {
+      await previewFixes(scanOptions);
+      return;
+    }
+
+    if (scanOptions.format === 'console') {
       printHeader();
     }
 
+    if (scanOptions.watch) {
+      await startWatching(scanOptions);
+      return;
+    }
+
     const spinner = createSpinner();
 
-    if (!scanOptions.json) {
+    if (scanOptions.format === 'console') {
       spinner.start();
     }
 
     try {
-      const issues = await runScanners(scanOptions.path, spinner);
+      const fixes = scanOptions.fix
+        ? await applyFixes(scanOptions, spinner)
+        : undefined;
+      const changes = readProjectChanges(scanOptions);
+      const scan = await scanProject(scanOptions, spinner, changes);
       spinner.stop();
 
-      const result = calculateResult(issues);
+      for (const error of scan.errors) {
+        console.error(chalk.yellow(`Warning: ${error.message}`));
+      }
+
+      const scanned =
+        changes && scanOptions.onlyChangedLines
+          ? filterChangedLines(scan.issues, changes)
+          : scan.issues;
+      const { issues, baseline } = applyBaseline(scanOptions, scanned);
+      const result = calculateResult(
+        issues,
+        scanOptions.config,
+        sum([...scan.suppressed.values()]),
+        mergeCoverage([...scan.coverage.values()])
+      );
+      result.baseline = baseline;
+      result.fixes = fixes;
+
+      if (scan.packages.length > 0) {
+        result.packages = scan.packages.flatMap((pkg) => {
+          // A package without coverage was not scanned, so it has no score
+          const coverage = scan.coverage.get(pkg.name);
+          if (!coverage) return [];
+
+          return [
+            {
+              name: pkg.name,
+              path: pkg.relativePath || '.',
+              ...calculateResult(
+                issues.filter((issue) => issue.package === pkg.name),
+                scanOptions.config,
+                scan.suppressed.get(pkg.name) || 0,
+                coverage
+              ),
+            },
+          ];
+        });
+      }
+
+      const regression = checkHistory(scanOptions, result);
+      result.policy = evaluatePolicy(result, scanOptions.policy, regression);
       const aiSuggestions = await getAIAnalysis(scanOptions, result);
+      await getAIFixes(scanOptions, result);
 
       outputResults(scanOptions, result, aiSuggestions);
 
-      if (result.summary.critical > 0) {
-        process.exit(1);
+      if (!result.policy.passed && result.policy.enforced) {
+        process.exit(EXIT_POLICY_FAILURE);
       }
     } catch (error) {
       spinner.stop();
+      if (
+        error instanceof BaselineError ||
+        error instanceof WorkspaceError ||
+        error instanceof GitError ||
+        error instanceof HistoryError
+      ) {
+        console.error(chalk.red(`Error: ${error.message}`));
+        process.exit(EXIT_INVALID_INPUT);
+      }
+
       console.error(chalk.red('Error during scan:'), error);
-      process.exit(1);
+      process.exit(EXIT_SCANNER_ERROR);
     }
   });
 
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
 function parseOptions(
   projectPath: string,
   options: Record<string, unknown>
@@ -76,124 +319,765 @@ function parseOptions(
 
   if (!fs.existsSync(resolvedPath)) {
     console.error(chalk.red(`Error: Path does not exist: ${resolvedPath}`));
-    process.exit(1);
+    process.exit(EXIT_INVALID_INPUT);
   }
 
-  if (!fs.existsSync(path.join(resolvedPath, 'package.json'))) {
+  const hasManifest = [
+    'package.json',
+    'pnpm-workspace.yaml',
+    'lerna.json',
+  ].some((file) => fs.existsSync(path.join(resolvedPath, file)));
+
+  if (!hasManifest) {
     console.error(
       chalk.red('Error: No package.json found. Is this a JavaScript project?')
     );
-    process.exit(1);
+    process.exit(EXIT_INVALID_INPUT);
+  }
+
+  let loaded: ReturnType<typeof loadConfig>;
+  let plugins: PerfScanPlugin[];
+  try {
+    loaded = loadConfig(resolvedPath, options.config as string | undefined);
+    plugins = loadPlugins(loaded.config.plugins, resolvedPath);
+    validateRuleIds(loaded.config, loaded.source);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(chalk.red(`Error: ${error.message}`));
+      process.exit(EXIT_INVALID_INPUT);
+    }
+    throw error;
+  }
+
+  for (const warning of loaded.warnings) {
+    console.error(chalk.yellow(`Warning: ${warning}`));
+  }
+
+  const format = (options.json ? 'json' : options.format) as OutputFormat;
+
+  if (!OUTPUT_FORMATS.includes(format)) {
+    console.error(
+      chalk.red(
+        `Error: Unknown format "${format}". ` +
+          `Use one of: ${OUTPUT_FORMATS.join(', ')}`
+      )
+    );
+    process.exit(EXIT_INVALID_INPUT);
+  }
+
+  if (options.output && format === 'console') {
+    console.error(
+      chalk.red('Error: --output requires a file format, e.g. --format html')
+    );
+    process.exit(EXIT_INVALID_INPUT);
+  }
+
+  if (options.changedSince && options.staged) {
+    console.error(
+      chalk.red('Error: Use either --changed-since or --staged, not both')
+    );
+    process.exit(EXIT_INVALID_INPUT);
+  }
+
+  if (options.onlyChangedLines && !options.changedSince && !options.staged) {
+    console.error(
+      chalk.red(
+        'Error: --only-changed-lines requires --changed-since or --staged'
+      )
+    );
+    process.exit(EXIT_INVALID_INPUT);
+  }
+
+  if (options.watch) {
+    const conflicting = [
+      ['--format', format !== 'console'],
+      ['--output', options.output],
+      ['--ai', options.ai],
+      ['--ai-fix', options.aiFix || options.aiFixPatch],
+      ['--fix', options.fix || options.fixDryRun],
+      ['--changed-since', options.changedSince || options.staged],
+      ['--baseline', options.baseline || options.writeBaseline],
+      ['--package', (options.package as string[]).length > 0],
+      [
+        '--record-history',
+        options.recordHistory || options.failOnRegression !== undefined,
+      ],
+      ['--fail-on', options.failOn],
+      ['--min-score', options.minScore !== undefined],
+      ['--max-warnings', options.maxWarnings !== undefined],
+    ].find(([, value]) => value);
+
+    if (conflicting) {
+      console.error(
+        chalk.red(`Error: --watch cannot be combined with ${conflicting[0]}`)
+      );
+      process.exit(EXIT_INVALID_INPUT);
+    }
+  }
+
+  if (options.recordHistory || options.failOnRegression !== undefined) {
+    // History only holds full-project scores, a filtered run is not comparable
+    const filtering = [
+      ['--changed-since', options.changedSince],
+      ['--staged', options.staged],
+      ['--baseline', options.baseline],
+      ['--package', (options.package as string[]).length > 0],
+    ].find(([, value]) => value);
+
+    if (filtering) {
+      const flag = options.recordHistory
+        ? '--record-history'
+        : '--fail-on-regression';
+      console.error(
+        chalk.red(`Error: ${flag} cannot be combined with ${filtering[0]}`)
+      );
+      process.exit(EXIT_INVALID_INPUT);
+    }
+  }
+
+  const failOnRegression =
+    options.failOnRegression === undefined
+      ? undefined
+      : Number(options.failOnRegression);
+
+  if (
+    failOnRegression !== undefined &&
+    (!Number.isFinite(failOnRegression) || failOnRegression < 0)
+  ) {
+    console.error(
+      chalk.red('Error: --fail-on-regression expects a number of points')
+    );
+    process.exit(EXIT_INVALID_INPUT);
   }
 
   const scanOptions: ScanOptions = {
     path: resolvedPath,
     ai: Boolean(options.ai),
-    apiKey: (options.apiKey as string) || process.env.OPENAI_API_KEY,
+    aiFix: Boolean(options.aiFix || options.aiFixPatch),
+    aiFixPatch: resolveOptionalPath(options.aiFixPatch),
     verbose: Boolean(options.verbose),
-    json: Boolean(options.json),
+    format,
+    output: resolveOptionalPath(options.output),
+    baseline: resolveOptionalPath(options.baseline),
+    writeBaseline: resolveOptionalPath(options.writeBaseline),
+    config: loaded.config,
+    configSource: loaded.source,
+    plugins,
+    packages: options.package as string[],
+    fix: Boolean(options.fix),
+    fixDryRun: Boolean(options.fixDryRun),
+    changedSince: options.changedSince as string | undefined,
+    staged: Boolean(options.staged),
+    onlyChangedLines: Boolean(options.onlyChangedLines),
+    watch: Boolean(options.watch),
+    recordHistory: Boolean(options.recordHistory),
+    failOnRegression,
+    policy: resolvePolicy(loaded.config.policy, options),
   };
 
-  if (scanOptions.ai) {
-    if (!scanOptions.apiKey) {
-      console.error(
-        chalk.red(
-          'Error: AI mode requires an API key. Use --api-key or set OPENAI_API_KEY'
-        )
+  if (scanOptions.ai || scanOptions.aiFix) {
+    try {
+      scanOptions.aiSettings = resolveAISettings({
+        provider: options.aiProvider as string,
+        model: options.aiModel as string | undefined,
+        apiKey: options.apiKey as string | undefined,
+        baseUrl: options.aiBaseUrl as string | undefined,
+      });
+    } catch (error) {
+      if (!(error instanceof AIConfigError)) throw error;
+      console.error(chalk.red(`Error: ${error.message}`));
+      process.exit(EXIT_INVALID_INPUT);
+    }
+  }
+
+  return scanOptions;
+}
+
+/**
+ * Applies command line overrides to the config policy. Writing a baseline
+ * never fails the run, since the current issues are being accepted.
+ */
+function resolvePolicy(
+  policy: PolicyConfig,
+  options: Record<string, unknown>
+): PolicyConfig {
+  const failOn = (options.failOn as string[] | undefined) || policy.failOn;
+  const limits = {
+    minScore: parseLimit(options.minScore, '--min-score') ?? policy.minScore,
+    maxWarnings:
+      parseLimit(options.maxWarnings, '--max-warnings') ?? policy.maxWarnings,
+  };
+
+  for (const spec of failOn) {
+    const error = validateFailOn(spec);
+    if (error) {
+      console.error(chalk.red(`Error: --fail-on ${error}`));
+      process.exit(EXIT_INVALID_INPUT);
+    }
+  }
+
+  return {
+    failOn,
+    ...limits,
+    neverFail:
+      Boolean(options.neverFail) ||
+      policy.neverFail ||
+      Boolean(options.writeBaseline),
+  };
+}
+
+function parseLimit(value: unknown, option: string): number | undefined {
+  if (value === undefined) return undefined;
+
+  const limit = Number(value);
+  if (!Number.isFinite(limit) || limit < 0) {
+    console.error(chalk.red(`Error: ${option} expects a non-negative number`));
+    process.exit(EXIT_INVALID_INPUT);
+  }
+
+  return limit;
+}
+
+/**
+ * Prints the fixes as a patch on stdout, so it can be piped into
+ * `git apply`. The summary goes to stderr.
+ */
+async function previewFixes(options: ScanOptions): Promise<void> {
+  const fileFixes = await collectFixes(options.path, options.config);
+  const count = sum(fileFixes.map(({ fixes }) => fixes.length));
+
+  if (fileFixes.length === 0) {
+    console.error(chalk.gray('No automatic fixes available'));
+    return;
+  }
+
+  process.stdout.write(formatFixDiff(fileFixes));
+  console.error(
+    chalk.green(
+      `${count} fix(es) in ${fileFixes.length} file(s). Run with --fix to apply`
+    )
+  );
+}
+
+async function applyFixes(
+  options: ScanOptions,
+  spinner: ReturnType<typeof ora>
+): Promise<AppliedFix[]> {
+  spinner.text = 'Applying fixes...';
+
+  const fileFixes = await collectFixes(options.path, options.config);
+  writeFixes(options.path, fileFixes);
+
+  return fileFixes.flatMap(({ fixes }) => fixes);
+}
+
+async function startWatching(options: ScanOptions): Promise<void> {
+  try {
+    if (await detectWorkspaces(options.path)) {
+      throw new WorkspaceError(
+        '--watch does not support workspaces; run it in a package directory'
       );
-      process.exit(1);
     }
 
-    if (!validateApiKey(scanOptions.apiKey)) {
-      console.error(chalk.red('Error: Invalid API key format'));
-      process.exit(1);
+    await watchProject(options);
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      console.error(chalk.red(`Error: ${error.message}`));
+      process.exit(EXIT_INVALID_INPUT);
     }
+
+    console.error(chalk.red('Error during scan:'), error);
+    process.exit(EXIT_SCANNER_ERROR);
   }
+}
 
-  return scanOptions;
+/**
+ * Compares with the history before recording this run, so a run never
+ * regresses against itself.
+ */
+function checkHistory(
+  options: ScanOptions,
+  result: ScanResult
+): Regression | null {
+  if (!options.recordHistory && options.failOnRegression === undefined) {
+    return null;
+  }
+
+  const regression =
+    options.failOnRegression === undefined
+      ? null
+      : findRegression(
+          readHistory(options.path),
+          result.score,
+          options.failOnRegression
+        );
+
+  if (options.recordHistory) {
+    appendHistory(options.path, createHistoryEntry(options.path, result));
+  }
+
+  return regression;
+}
+
+function readProjectChanges(options: ScanOptions): ChangeSet | undefined {
+  if (!options.changedSince && !options.staged) return undefined;
+
+  return readChanges(options.path, {
+    since: options.changedSince,
+    staged: options.staged,
+  });
+}
+
+function resolveOptionalPath(value: unknown): string | undefined {
+  return typeof value === 'string' ? path.resolve(value) : undefined;
 }
 
 function createSpinner() {
   return ora({ text: 'Scanning project...', spinner: 'dots' });
 }
 
+/**
+ * Scans a single project, or every selected workspace package when the
+ * project is a monorepo. Suppressions are applied per package; issues of
+ * workspace packages get root-relative paths and their package name.
+ */
+async function scanProject(
+  options: ScanOptions,
+  spinner: ReturnType<typeof ora>,
+  changes?: ChangeSet
+): Promise<ProjectScan> {
+  const workspaces = await detectWorkspaces(options.path);
+
+  if (!workspaces) {
+    if (options.packages.length > 0) {
+      throw new WorkspaceError(
+        '--package requires a workspace (package.json "workspaces", pnpm-workspace.yaml or lerna.json)'
+      );
+    }
+
+    const scan = await runScanners(
+      options,
+      {
+        path: options.path,
+        config: options.config,
+        ...scopeTarget(changes, ''),
+      },
+      spinner
+    );
+    const unsuppressed = applySuppressions(options.path, scan.issues);
+
+    return {
+      issues: unsuppressed.issues,
+      suppressed: new Map([['', unsuppressed.suppressed]]),
+      coverage: new Map([['', scan.coverage]]),
+      errors: scan.errors,
+      packages: [],
+    };
+  }
+
+  const root = getRootPackage(options.path);
+  const selected = selectPackages([root, ...workspaces], options.packages);
+  const result: ProjectScan = {
+    issues: [],
+    suppressed: new Map(),
+    coverage: new Map(),
+    errors: [],
+    packages: selected,
+  };
+
+  for (const pkg of selected) {
+    const config =
+      pkg === root
+        ? excludePackages(options.config, workspaces)
+        : options.config;
+    const scan = await runScanners(
+      options,
+      {
+        path: pkg.path,
+        config,
+        label: pkg.name,
+        ...scopeTarget(changes, pkg.relativePath),
+      },
+      spinner
+    );
+    const unsuppressed = applySuppressions(pkg.path, scan.issues);
+
+    result.issues.push(...tagPackageIssues(pkg, unsuppressed.issues));
+    result.suppressed.set(pkg.name, unsuppressed.suppressed);
+    result.coverage.set(pkg.name, scan.coverage);
+    result.errors.push(...scan.errors);
+  }
+
+  return result;
+}
+
+function scopeTarget(
+  changes: ChangeSet | undefined,
+  relativePath: string
+): Pick<ScanTarget, 'changedFiles' | 'dependenciesChanged'> {
+  if (!changes) return {};
+
+  const changedFiles = scopeChanges(changes, relativePath);
+  return {
+    changedFiles,
+    dependenciesChanged: hasDependencyChanges(
+      changedFiles,
+      scopeChanges(changes, '')
+    ),
+  };
+}
+
+function selectPackages(
+  packages: WorkspacePackage[],
+  filter: string[]
+): WorkspacePackage[] {
+  if (filter.length === 0) return packages;
+
+  const unknown = filter.filter(
+    (name) =>
+      !packages.some((pkg) => pkg.name === name || pkg.relativePath === name)
+  );
+
+  if (unknown.length > 0) {
+    throw new WorkspaceError(
+      `Unknown package ${unknown.map((n) => `"${n}"`).join(', ')}. ` +
+        `Available: ${packages.map((pkg) => pkg.name).join(', ')}`
+    );
+  }
+
+  return packages.filter(
+    (pkg) => filter.includes(pkg.name) || filter.includes(pkg.relativePath)
+  );
+}
+
 async function runScanners(
-  projectPath: string,
+  options: ScanOptions,
+  target: ScanTarget,
   spinner: ReturnType<typeof ora>
-): Promise<Issue[]> {
+): Promise<{
+  issues: Issue[];
+  errors: PluginError[];
+  coverage: ScanCoverage;
+}> {
+  const { path: projectPath, config, changedFiles } = target;
+  const prefix = target.label ? `${target.label}: ` : '';
   const issues: Issue[] = [];
+  const errors: PluginError[] = [];
+  const categories: Category[] = ['asset', 'code'];
 
-  spinner.text = 'Analyzing dependencies...';
-  issues.push(...(await scanDependencies(projectPath)));
+  if (!changedFiles || target.dependenciesChanged) {
+    spinner.text = `${prefix}Analyzing dependencies...`;
+    issues.push(...(await scanDependencies(projectPath, config, options.path)));
+    categories.unshift('dependency');
+  }
 
-  spinner.text = 'Scanning assets...';
-  issues.push(...(await scanAssets(projectPath)));
+  spinner.text = `${prefix}Scanning assets...`;
+  issues.push(...(await scanAssets(projectPath, config, changedFiles)));
 
-  spinner.text = 'Analyzing code patterns...';
-  issues.push(...(await scanCode(projectPath)));
+  spinner.text = `${prefix}Analyzing code patterns...`;
+  const code = await scanCode(projectPath, config, changedFiles);
+  issues.push(...code.issues);
 
-  return issues;
-}
+  if (options.plugins.length > 0) {
+    const files = (await listProjectFiles(projectPath, config)).filter(
+      (file) => !changedFiles || changedFiles.has(file)
+    );
+
+    for (const plugin of options.plugins) {
+      spinner.text = `${prefix}Running plugin ${plugin.name}...`;
 
-function calculateResult(issues: Issue[]): ScanResult {
-  const summary = {
-    critical: issues.filter((i) => i.severity === 'critical').length,
-    warning: issues.filter((i) => i.severity === 'warning').length,
-    info: issues.filter((i) => i.severity === 'info').length,
-    passed: 0,
+      try {
+        issues.push(...(await runPlugin(plugin, projectPath, config, files)));
+      } catch (error) {
+        if (!(error instanceof PluginError)) throw error;
+        errors.push(error);
+      }
+    }
+  }
+
+  return {
+    issues: applyRuleSettings(issues, config),
+    errors,
+    coverage: { categories, codeFiles: code.files, codeLines: code.lines },
   };
+}
 
-  let score = 100;
-  score -= summary.critical * SCORE_CRITICAL_PENALTY;
-  score -= summary.warning * SCORE_WARNING_PENALTY;
-  score -= summary.info * SCORE_INFO_PENALTY;
-  score = Math.max(0, Math.min(100, score));
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
 
-  summary.passed =
-    SCORE_BASE_CHECKS +
-    issues.length -
-    summary.critical -
-    summary.warning -
-    summary.info;
+function applyBaseline(
+  options: ScanOptions,
+  issues: Issue[]
+): { issues: Issue[]; baseline?: BaselineSummary } {
+  if (options.writeBaseline) {
+    writeBaseline(options.writeBaseline, createBaseline(options.path, issues));
 
-  return { score, issues, summary };
+    if (options.format === 'console') {
+      console.log(
+        chalk.green(
+          `  Baseline written to ${options.writeBaseline} (${issues.length} issues)`
+        )
+      );
+      console.log('');
+    }
+  }
+
+  if (!options.baseline) {
+    return { issues };
+  }
+
+  const comparison = compareWithBaseline(
+    options.path,
+    issues,
+    readBaseline(options.baseline)
+  );
+
+  return {
+    issues: comparison.newIssues,
+    baseline: {
+      file: options.baseline,
+      new: comparison.newIssues.length,
+      existing: comparison.existingIssues.length,
+      fixed: comparison.fixed,
+    },
+  };
 }
 
 async function getAIAnalysis(
   options: ScanOptions,
   result: ScanResult
 ): Promise<string | undefined> {
-  if (!options.ai || !options.apiKey) return undefined;
+  if (!options.ai || !options.aiSettings) return undefined;
 
   const spinner = ora({ text: 'Getting AI suggestions...', spinner: 'dots' });
-  if (!options.json) {
+  if (options.format === 'console') {
     spinner.start();
   }
 
-  const suggestions = await getAISuggestions(result, options.apiKey);
+  const suggestions = await getAISuggestions(result, options.aiSettings);
 
-  if (!options.json) {
+  if (options.format === 'console') {
     spinner.stop();
   }
 
   return suggestions;
 }
 
+/**
+ * Attaches AI fix proposals to the most severe issues and writes them as
+ * one patch when `--ai-fix-patch` is given.
+ */
+async function getAIFixes(
+  options: ScanOptions,
+  result: ScanResult
+): Promise<void> {
+  if (!options.aiFix || !options.aiSettings) return;
+
+  const issues = selectAIFixIssues(result.issues);
+  const spinner = ora({ text: 'Getting AI fixes...', spinner: 'dots' });
+  if (options.format === 'console') {
+    spinner.start();
+  }
+
+  const run = await proposeAIFixes(
+    options.path,
+    issues,
+    options.aiSettings,
+    (issue, index) => {
+      spinner.text = `Getting AI fixes (${index + 1}/${issues.length}): ${
+        issue.file
+      }...`;
+    }
+  );
+
+  if (options.format === 'console') {
+    spinner.stop();
+  }
+
+  if (run.error) {
+    console.error(chalk.yellow(`Warning: ${run.error}`));
+  }
+
+  if (options.aiFixPatch) {
+    fs.mkdirSync(path.dirname(options.aiFixPatch), { recursive: true });
+    fs.writeFileSync(
+      options.aiFixPatch,
+      formatAIFixPatch(options.path, run.proposals)
+    );
+    console.error(
+      chalk.green(
+        `AI fixes written to ${options.aiFixPatch} (${run.proposals.length} of ${issues.length} issues)`
+      )
+    );
+  }
+}
+
 function outputResults(
   options: ScanOptions,
   result: ScanResult,
   aiSuggestions?: string
 ): void {
-  if (options.json) {
-    printJSON(result, aiSuggestions);
-  } else {
-    printScore(result);
+  if (options.format === 'console') {
+    printScore(result, options.verbose);
+    if (result.fixes) {
+      printFixes(result.fixes, options.verbose);
+    }
+    if (result.packages) {
+      printPackages(result.packages);
+    }
+    if (result.baseline) {
+      printBaseline(result.baseline, options.verbose);
+    }
     printIssues(result.issues, options.verbose);
+    if (result.policy) {
+      printPolicy(result.policy);
+    }
     if (aiSuggestions) {
       printAISuggestions(aiSuggestions);
     }
     printFooter();
+    return;
+  }
+
+  const report = formatReport(options, result, aiSuggestions);
+
+  if (options.output) {
+    fs.mkdirSync(path.dirname(options.output), { recursive: true });
+    fs.writeFileSync(options.output, report);
+    console.error(chalk.green(`Report written to ${options.output}`));
+  } else {
+    console.log(report);
+  }
+
+  if (result.policy && !result.policy.passed) {
+    console.error(
+      chalk.red(
+        `Policy failed: ${result.policy.violations
+          .map((violation) => violation.policy)
+          .join(', ')}`
+      )
+    );
   }
 }
 
+function formatReport(
+  options: ScanOptions,
+  result: ScanResult,
+  aiSuggestions?: string
+): string {
+  switch (options.format) {
+    case 'sarif':
+      return formatSARIF(result);
+    case 'html':
+      return formatHTML(result, {
+        projectName: path.basename(options.path),
+        aiSuggestions,
+      });
+    case 'markdown':
+      return formatMarkdown(result, aiSuggestions);
+    case 'github':
+      return formatGitHub(result);
+    default:
+      return formatJSON(result, aiSuggestions);
+  }
+}
+
+program
+  .command('history')
+  .description(`Show the score trend recorded in ${HISTORY_FILE}`)
+  .argument('[path]', 'Path to project directory', '.')
+  .option(
+    '-n, --limit <count>',
+    'Number of runs to show',
+    String(HISTORY_LIMIT)
+  )
+  .option('--json', 'Output the runs as JSON')
+  .action((projectPath: string, options: Record<string, unknown>) => {
+    const limit = Number(options.limit);
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      console.error(chalk.red('Error: --limit expects a positive number'));
+      process.exit(EXIT_INVALID_INPUT);
+    }
+
+    try {
+      const entries = readHistory(path.resolve(projectPath)).slice(-limit);
+
+      if (options.json) {
+        console.log(JSON.stringify(entries, null, 2));
+      } else {
+        printHeader();
+        printHistory(entries);
+      }
+    } catch (error) {
+      if (!(error instanceof HistoryError)) throw error;
+      console.error(chalk.red(`Error: ${error.message}`));
+      process.exit(EXIT_INVALID_INPUT);
+    }
+  });
+
+program
+  .command('compare')
+  .description('Compare two JSON scan reports')
+  .argument('<old>', 'Earlier report written with --json')
+  .argument('<new>', 'Later report written with --json')
+  .option('--json', 'Output the comparison as JSON (same as --format json)')
+  .option(
+    '-f, --format <format>',
+    `Output format: ${COMPARE_FORMATS.join(', ')}`,
+    'console'
+  )
+  .option('-o, --output <file>', 'Write the comparison to a file')
+  .action(
+    (oldFile: string, newFile: string, options: Record<string, unknown>) => {
+      const format = (options.json ? 'json' : options.format) as OutputFormat;
+
+      if (!COMPARE_FORMATS.includes(format)) {
+        console.error(
+          chalk.red(
+            `Error: Unknown format "${format}". ` +
+              `Use one of: ${COMPARE_FORMATS.join(', ')}`
+          )
+        );
+        process.exit(EXIT_INVALID_INPUT);
+      }
+
+      let comparison: ReportComparison;
+      try {
+        comparison = compareReports(
+          readReport(path.resolve(oldFile)),
+          readReport(path.resolve(newFile))
+        );
+      } catch (error) {
+        if (!(error instanceof CompareError)) throw error;
+        console.error(chalk.red(`Error: ${error.message}`));
+        process.exit(EXIT_INVALID_INPUT);
+      }
+
+      if (format === 'console') {
+        printHeader();
+        printComparison(comparison);
+        if (comparison.aiSuggestions) {
+          printAISuggestions(comparison.aiSuggestions);
+        }
+        return;
+      }
+
+      const report =
+        format === 'markdown'
+          ? formatComparisonMarkdown(comparison)
+          : JSON.stringify(comparison, null, 2);
+      const output = resolveOptionalPath(options.output);
+
+      if (output) {
+        fs.mkdirSync(path.dirname(output), { recursive: true });
+        fs.writeFileSync(output, report);
+        console.error(chalk.green(`Comparison written to ${output}`));
+      } else {
+        console.log(report);
+      }
+    }
+  );
+
 program.parse();
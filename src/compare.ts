@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ChangedIssue,
+  CountDelta,
+  Issue,
+  ReportComparison,
+  ScanResult,
+  Severity,
+} from './types';
+
+export class CompareError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CompareError';
+  }
+}
+
+/**
+ * A report written with `--json`, which embeds the AI analysis next to the
+ * scan result.
+ */
+export interface ScanReport extends ScanResult {
+  aiSuggestions?: string;
+}
+
+export function readReport(filePath: string): ScanReport {
+  const name = path.basename(filePath);
+
+  if (!fs.existsSync(filePath)) {
+    throw new CompareError(`Report not found: ${filePath}`);
+  }
+
+  let report: ScanReport;
+  try {
+    report = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new CompareError(`Failed to parse ${name}: ${reason}`);
+  }
+
+  if (
+    typeof report?.score !== 'number' ||
+    !Array.isArray(report.issues) ||
+    typeof report.summary !== 'object'
+  ) {
+    throw new CompareError(
+      `${name} is not a JSON scan report (write one with --json)`
+    );
+  }
+
+  return report;
+}
+
+/**
+ * Matches issues by rule, file, title and package. Reports carry no source,
+ * so an issue on the same line is preferred and the rest pair up in order,
+ * which keeps issues that moved when code above them changed. Matched
+ * issues whose severity or message differ are reported as changed.
+ */
+export function compareReports(
+  before: ScanReport,
+  after: ScanReport
+): ReportComparison {
+  const remaining = new Map<string, Issue[]>();
+
+  for (const issue of before.issues) {
+    const key = issueKey(issue);
+    remaining.set(key, [...(remaining.get(key) || []), issue]);
+  }
+
+  const pairs: [Issue, Issue][] = [];
+  const take = (issue: Issue, sameLine: boolean): boolean => {
+    const candidates = remaining.get(issueKey(issue)) || [];
+    const index = candidates.findIndex(
+      (candidate) => !sameLine || candidate.line === issue.line
+    );
+
+    if (index === -1) return false;
+
+    pairs.push([candidates[index], issue]);
+    candidates.splice(index, 1);
+    return true;
+  };
+
+  const newIssues = after.issues
+    .filter((issue) => !take(issue, true))
+    .filter((issue) => !take(issue, false));
+
+  const changedIssues: ChangedIssue[] = pairs
+    .filter(
+      ([previous, current]) =>
+        previous.severity !== current.severity ||
+        previous.message !== current.message
+    )
+    .map(([previous, current]) => ({ before: previous, after: current }));
+
+  return {
+    score: countDelta(before.score, after.score),
+    summary: {
+      critical: summaryDelta(before, after, 'critical'),
+      warning: summaryDelta(before, after, 'warning'),
+      info: summaryDelta(before, after, 'info'),
+    },
+    newIssues,
+    resolvedIssues: [...remaining.values()].flat(),
+    changedIssues,
+    unchanged: pairs.length - changedIssues.length,
+    aiSuggestions: after.aiSuggestions,
+  };
+}
+
+// Helper functions
+
+function issueKey(issue: Issue): string {
+  return [issue.package, issue.rule, issue.file, issue.title].join('\0');
+}
+
+function summaryDelta(
+  before: ScanResult,
+  after: ScanResult,
+  severity: Severity
+): CountDelta {
+  return countDelta(
+    before.summary[severity] ?? 0,
+    after.summary[severity] ?? 0
+  );
+}
+
+function countDelta(before: number, after: number): CountDelta {
+  return { before, after, delta: after - before };
+}
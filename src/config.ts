@@ -0,0 +1,418 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  Issue,
+  PluginSpec,
+  PolicyConfig,
+  RuleSetting,
+  ScanConfig,
+  ScoringConfig,
+  Thresholds,
+} from './types';
+import { getRule } from './rules';
+import {
+  CONFIG_FILES,
+  PACKAGE_JSON_CONFIG_KEY,
+  IMAGE_SIZE_WARNING,
+  IMAGE_SIZE_CRITICAL,
+  FONT_SIZE_WARNING,
+  TOTAL_ASSETS_WARNING,
+  WEBP_SUGGESTION_THRESHOLD,
+  RESOLUTION_VARIANT_THRESHOLD,
+  IMAGE_MAX_DIMENSION,
+  SVG_MAX_NODES,
+  SVG_MAX_PATH_COMMANDS,
+  SVG_RASTERIZE_SIZE,
+  DEPENDENCY_SIZE_WARNING,
+  DEPENDENCY_SIZE_CRITICAL,
+  LARGE_FILE_LINES,
+  CONSOLE_WARNING_THRESHOLD,
+  INLINE_FUNCTION_THRESHOLD,
+  INLINE_STYLE_THRESHOLD,
+  HEAVY_RENDER_MAP_THRESHOLD,
+  MEMO_LINE_THRESHOLD,
+  HIGH_DEPENDENCY_COUNT,
+  LARGE_OBJECT_CHARS,
+  SCORE_CRITICAL_PENALTY,
+  SCORE_WARNING_PENALTY,
+  SCORE_INFO_PENALTY,
+  SCORE_DEPENDENCY_WEIGHT,
+  SCORE_ASSET_WEIGHT,
+  SCORE_CODE_WEIGHT,
+  SCORE_CODE_LINES_PER_UNIT,
+  DEFAULT_FAIL_ON,
+  IGNORE_PATTERNS,
+  CODE_IGNORE_PATTERNS,
+} from './constants';
+import { validateFailOn } from './policy';
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+const CONFIG_KEYS = [
+  'thresholds',
+  'scoring',
+  'policy',
+  'ignore',
+  'codeIgnore',
+  'rules',
+  'plugins',
+];
+const RULE_SETTINGS = ['off', 'critical', 'warning', 'info'];
+/** Keys still accepted but ignored, with the reason shown to the user */
+const DEPRECATED_SCORING_KEYS: Record<string, string> = {
+  baseChecks: 'each category is now scored from its own checks',
+};
+
+export function getDefaultConfig(): ScanConfig {
+  return {
+    thresholds: {
+      imageSizeWarning: IMAGE_SIZE_WARNING,
+      imageSizeCritical: IMAGE_SIZE_CRITICAL,
+      fontSizeWarning: FONT_SIZE_WARNING,
+      totalAssetsWarning: TOTAL_ASSETS_WARNING,
+      webpSuggestionThreshold: WEBP_SUGGESTION_THRESHOLD,
+      resolutionVariantThreshold: RESOLUTION_VARIANT_THRESHOLD,
+      imageMaxDimension: IMAGE_MAX_DIMENSION,
+      svgMaxNodes: SVG_MAX_NODES,
+      svgMaxPathCommands: SVG_MAX_PATH_COMMANDS,
+      svgRasterizeSize: SVG_RASTERIZE_SIZE,
+      dependencySizeWarning: DEPENDENCY_SIZE_WARNING,
+      dependencySizeCritical: DEPENDENCY_SIZE_CRITICAL,
+      largeFileLines: LARGE_FILE_LINES,
+      consoleWarningThreshold: CONSOLE_WARNING_THRESHOLD,
+      inlineFunctionThreshold: INLINE_FUNCTION_THRESHOLD,
+      inlineStyleThreshold: INLINE_STYLE_THRESHOLD,
+      heavyRenderMapThreshold: HEAVY_RENDER_MAP_THRESHOLD,
+      memoLineThreshold: MEMO_LINE_THRESHOLD,
+      highDependencyCount: HIGH_DEPENDENCY_COUNT,
+      largeObjectChars: LARGE_OBJECT_CHARS,
+    },
+    scoring: {
+      criticalPenalty: SCORE_CRITICAL_PENALTY,
+      warningPenalty: SCORE_WARNING_PENALTY,
+      infoPenalty: SCORE_INFO_PENALTY,
+      dependencyWeight: SCORE_DEPENDENCY_WEIGHT,
+      assetWeight: SCORE_ASSET_WEIGHT,
+      codeWeight: SCORE_CODE_WEIGHT,
+      codeLinesPerUnit: SCORE_CODE_LINES_PER_UNIT,
+    },
+    policy: {
+      failOn: [...DEFAULT_FAIL_ON],
+      neverFail: false,
+    },
+    ignorePatterns: [...IGNORE_PATTERNS],
+    codeIgnorePatterns: [...CODE_IGNORE_PATTERNS],
+    rules: {},
+    plugins: [],
+  };
+}
+
+/**
+ * Finds and loads the project config. An explicit `configPath` wins over
+ * discovery; otherwise the first of `perf-scan.config.js`,
+ * `perf-scan.config.json` and the `perfScan` key in package.json is used.
+ * Deprecated keys are dropped and reported in `warnings`.
+ */
+export function loadConfig(
+  projectPath: string,
+  configPath?: string
+): { config: ScanConfig; source?: string; warnings: string[] } {
+  const found = configPath
+    ? readConfigFile(path.resolve(configPath))
+    : discoverConfig(projectPath);
+
+  if (!found) {
+    return { config: getDefaultConfig(), warnings: [] };
+  }
+
+  const { raw, warnings } = dropDeprecatedKeys(found.raw, found.source);
+  validateConfig(raw, found.source);
+
+  return {
+    config: mergeConfig(getDefaultConfig(), raw as Record<string, unknown>),
+    source: found.source,
+    warnings,
+  };
+}
+
+/**
+ * Checks that every rule named in `rules` exists. Runs after plugins are
+ * loaded so their rules can be configured too.
+ */
+export function validateRuleIds(config: ScanConfig, source?: string): void {
+  const unknown = Object.keys(config.rules).filter((rule) => !getRule(rule));
+
+  if (unknown.length > 0) {
+    throw new ConfigError(
+      `Invalid config in ${source || 'config'}:\n${unknown
+        .map((rule) => `  - unknown rule "${rule}"`)
+        .join('\n')}`
+    );
+  }
+}
+
+/**
+ * Drops issues for rules turned `off` and applies per-rule severity
+ * overrides. Rules are keyed by rule ID (e.g. `code/console`).
+ */
+export function applyRuleSettings(
+  issues: Issue[],
+  config: ScanConfig
+): Issue[] {
+  const result: Issue[] = [];
+
+  for (const issue of issues) {
+    const setting = config.rules[issue.rule];
+
+    if (setting === 'off') continue;
+
+    result.push(setting ? { ...issue, severity: setting } : issue);
+  }
+
+  return result;
+}
+
+// Helper functions
+
+function discoverConfig(
+  projectPath: string
+): { raw: unknown; source: string } | null {
+  for (const name of CONFIG_FILES) {
+    const filePath = path.join(projectPath, name);
+    if (fs.existsSync(filePath)) {
+      return readConfigFile(filePath);
+    }
+  }
+
+  const packageJsonPath = path.join(projectPath, 'package.json');
+  if (!fs.existsSync(packageJsonPath)) return null;
+
+  const packageJson = parseJSON(packageJsonPath);
+  if (packageJson[PACKAGE_JSON_CONFIG_KEY] === undefined) return null;
+
+  return {
+    raw: packageJson[PACKAGE_JSON_CONFIG_KEY],
+    source: `package.json#${PACKAGE_JSON_CONFIG_KEY}`,
+  };
+}
+
+function readConfigFile(filePath: string): { raw: unknown; source: string } {
+  const source = path.basename(filePath);
+
+  if (!fs.existsSync(filePath)) {
+    throw new ConfigError(`Config file not found: ${filePath}`);
+  }
+
+  if (filePath.endsWith('.json')) {
+    return { raw: parseJSON(filePath), source };
+  }
+
+  try {
+    const loaded = require(filePath);
+    return { raw: loaded?.default ?? loaded, source };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Failed to load ${source}: ${reason}`);
+  }
+}
+
+function parseJSON(filePath: string): Record<string, unknown> {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(
+      `Failed to parse ${path.basename(filePath)}: ${reason}`
+    );
+  }
+}
+
+function dropDeprecatedKeys(
+  raw: unknown,
+  source: string
+): { raw: unknown; warnings: string[] } {
+  if (!isPlainObject(raw) || !isPlainObject(raw.scoring)) {
+    return { raw, warnings: [] };
+  }
+
+  const scoring = { ...raw.scoring };
+  const warnings: string[] = [];
+
+  for (const [key, reason] of Object.entries(DEPRECATED_SCORING_KEYS)) {
+    if (!(key in scoring)) continue;
+
+    delete scoring[key];
+    warnings.push(
+      `${source}: "scoring.${key}" is deprecated and ignored (${reason})`
+    );
+  }
+
+  return { raw: { ...raw, scoring }, warnings };
+}
+
+function validateConfig(raw: unknown, source: string): void {
+  const errors: string[] = [];
+  const defaults = getDefaultConfig();
+
+  if (!isPlainObject(raw)) {
+    throw new ConfigError(`${source}: config must be an object`);
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!CONFIG_KEYS.includes(key)) {
+      errors.push(`unknown key "${key}"`);
+    }
+  }
+
+  validateNumbers(raw.thresholds, 'thresholds', defaults.thresholds, errors);
+  validateNumbers(raw.scoring, 'scoring', defaults.scoring, errors);
+  validatePolicy(raw.policy, errors);
+  validatePatterns(raw.ignore, 'ignore', errors);
+  validatePatterns(raw.codeIgnore, 'codeIgnore', errors);
+  validatePlugins(raw.plugins, errors);
+
+  if (raw.rules !== undefined) {
+    if (!isPlainObject(raw.rules)) {
+      errors.push('"rules" must be an object');
+    } else {
+      for (const [rule, setting] of Object.entries(raw.rules)) {
+        if (!RULE_SETTINGS.includes(setting as string)) {
+          errors.push(
+            `rules["${rule}"] must be one of ${RULE_SETTINGS.join(', ')}`
+          );
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigError(
+      `Invalid config in ${source}:\n${errors
+        .map((e) => `  - ${e}`)
+        .join('\n')}`
+    );
+  }
+}
+
+function validateNumbers(
+  value: unknown,
+  key: string,
+  defaults: object,
+  errors: string[]
+): void {
+  if (value === undefined) return;
+
+  if (!isPlainObject(value)) {
+    errors.push(`"${key}" must be an object`);
+    return;
+  }
+
+  const known = Object.keys(defaults);
+  for (const [name, entry] of Object.entries(value)) {
+    if (!known.includes(name)) {
+      errors.push(
+        `unknown key "${key}.${name}" (expected one of: ${known.join(', ')})`
+      );
+    } else if (
+      typeof entry !== 'number' ||
+      !Number.isFinite(entry) ||
+      entry < 0
+    ) {
+      errors.push(`"${key}.${name}" must be a non-negative number`);
+    }
+  }
+}
+
+function validatePolicy(value: unknown, errors: string[]): void {
+  if (value === undefined) return;
+
+  if (!isPlainObject(value)) {
+    errors.push('"policy" must be an object');
+    return;
+  }
+
+  const { failOn, neverFail, ...limits } = value;
+
+  if (failOn !== undefined) {
+    if (!Array.isArray(failOn) || failOn.some((s) => typeof s !== 'string')) {
+      errors.push('"policy.failOn" must be an array of strings');
+    } else {
+      for (const spec of failOn) {
+        const error = validateFailOn(spec);
+        if (error) errors.push(`policy.failOn: ${error}`);
+      }
+    }
+  }
+
+  if (neverFail !== undefined && typeof neverFail !== 'boolean') {
+    errors.push('"policy.neverFail" must be a boolean');
+  }
+
+  validateNumbers(limits, 'policy', { minScore: 0, maxWarnings: 0 }, errors);
+}
+
+function validatePatterns(value: unknown, key: string, errors: string[]): void {
+  if (value === undefined) return;
+
+  if (!Array.isArray(value) || value.some((p) => typeof p !== 'string')) {
+    errors.push(`"${key}" must be an array of glob strings`);
+  }
+}
+
+function validatePlugins(value: unknown, errors: string[]): void {
+  if (value === undefined) return;
+
+  const isValidSpec = (spec: unknown): boolean =>
+    typeof spec === 'string' ||
+    (Array.isArray(spec) &&
+      spec.length === 2 &&
+      typeof spec[0] === 'string' &&
+      isPlainObject(spec[1]));
+
+  if (!Array.isArray(value) || !value.every(isValidSpec)) {
+    errors.push(
+      '"plugins" must be an array of module names/paths or [name, options] pairs'
+    );
+  }
+}
+
+/**
+ * Merges a validated config over the defaults, so the casts below only
+ * restate what validateConfig checked.
+ */
+function mergeConfig(
+  defaults: ScanConfig,
+  raw: Record<string, unknown>
+): ScanConfig {
+  const ignore = (raw.ignore as string[] | undefined) || [];
+  const codeIgnore = (raw.codeIgnore as string[] | undefined) || [];
+
+  return {
+    thresholds: {
+      ...defaults.thresholds,
+      ...(raw.thresholds as Partial<Thresholds>),
+    },
+    scoring: {
+      ...defaults.scoring,
+      ...(raw.scoring as Partial<ScoringConfig>),
+    },
+    policy: { ...defaults.policy, ...(raw.policy as Partial<PolicyConfig>) },
+    ignorePatterns: [...defaults.ignorePatterns, ...ignore],
+    codeIgnorePatterns: [
+      ...defaults.codeIgnorePatterns,
+      ...ignore,
+      ...codeIgnore,
+    ],
+    rules: { ...(raw.rules as Record<string, RuleSetting>) },
+    plugins: (raw.plugins as PluginSpec[] | undefined) || [],
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,4 +1,18 @@
-import { HeavyDependency, Severity } from './types';
+import {
+  AIProviderName,
+  Category,
+  HeavyDependency,
+  Lockfile,
+  OutputFormat,
+  Severity,
+} from './types';
+
+// ===================
+// Tool Info
+// ===================
+export const TOOL_NAME = 'ai-perf-scan';
+export const TOOL_VERSION = '1.0.0';
+export const TOOL_URL = 'https://github.com/MMGAbdelhay/ai-perf-scan';
 
 // ===================
 // AI Configuration
@@ -25,10 +39,103 @@ Keep the response concise and actionable. Use bullet points.`;
 export const AI_SYSTEM_MESSAGE =
   'You are a helpful performance optimization assistant. Be concise and practical.';
 
-export const AI_MODEL = 'gpt-4o-mini';
+export const AI_FIX_PROMPT = `Fix this performance issue in a React / React Native project.
+
+Issue: [{{severity}}] {{title}} ({{rule}})
+{{message}}
+{{suggestion}}
+
+File {{file}}, lines {{start}}-{{end}}. The issue is reported on line {{line}}.
+\`\`\`
+{{code}}
+\`\`\`
+
+Dependencies from package.json:
+{{dependencies}}
+
+Reply with a JSON object only, no Markdown:
+{"explanation": "<why the change fixes the issue, max 60 words>", "code": "<replacement for lines {{start}}-{{end}}>"}
+
+"code" replaces exactly the lines shown. Change as little as needed, keep the
+original indentation, and do not add imports outside these lines. If the issue
+cannot be fixed within these lines, return them unchanged and explain why.`;
+
+export const AI_FIX_SYSTEM_MESSAGE =
+  'You are a careful senior React engineer. You answer with valid JSON only.';
+
+export const AI_FIX_MAX_ISSUES = 10;
+export const AI_FIX_CONTEXT_LINES = 20; // lines sent before and after the issue
+export const AI_FIX_MAX_TOKENS = 2000;
+export const AI_FIX_TEMPERATURE = 0;
+
+export const AI_PROVIDERS: AIProviderName[] = [
+  'openai',
+  'anthropic',
+  'azure',
+  'openai-compatible',
+];
+export const AI_DEFAULT_PROVIDER: AIProviderName = 'openai';
+export const AI_DEFAULT_MODELS: Partial<Record<AIProviderName, string>> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+};
+export const AI_API_KEY_ENV: Partial<Record<AIProviderName, string>> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  azure: 'AZURE_OPENAI_API_KEY',
+};
 export const AI_MAX_TOKENS = 500;
 export const AI_TEMPERATURE = 0.7;
 
+export const ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+export const ANTHROPIC_API_VERSION = '2023-06-01';
+export const AZURE_OPENAI_ENDPOINT_ENV = 'AZURE_OPENAI_ENDPOINT';
+export const AZURE_OPENAI_API_VERSION = '2024-06-01';
+
+// ===================
+// Output
+// ===================
+export const OUTPUT_FORMATS: OutputFormat[] = [
+  'console',
+  'json',
+  'sarif',
+  'html',
+  'markdown',
+  'github',
+];
+
+export const COMPARE_FORMATS: OutputFormat[] = ['console', 'json', 'markdown'];
+
+export const MARKDOWN_TOP_FILES = 5;
+export const GITHUB_ANNOTATION_LEVELS: Record<Severity, string> = {
+  critical: 'error',
+  warning: 'warning',
+  info: 'notice',
+};
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+export const SARIF_LEVELS: Record<Severity, string> = {
+  critical: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+// ===================
+// Config Files
+// ===================
+export const CONFIG_FILES = ['perf-scan.config.js', 'perf-scan.config.json'];
+export const PACKAGE_JSON_CONFIG_KEY = 'perfScan';
+
+// ===================
+// Workspaces
+// ===================
+export const ROOT_PACKAGE_NAME = '(root)';
+
+// ===================
+// Baseline
+// ===================
+export const BASELINE_VERSION = 1;
+
 // ===================
 // Size Thresholds
 // ===================
@@ -38,6 +145,12 @@ export const FONT_SIZE_WARNING = 200 * 1024; // 200KB
 export const TOTAL_ASSETS_WARNING = 10 * 1024 * 1024; // 10MB
 export const WEBP_SUGGESTION_THRESHOLD = 50 * 1024; // 50KB
 export const RESOLUTION_VARIANT_THRESHOLD = 20 * 1024; // 20KB
+export const IMAGE_MAX_DIMENSION = 2048; // px, longest side
+export const SVG_MAX_NODES = 500;
+export const SVG_MAX_PATH_COMMANDS = 5000;
+export const SVG_RASTERIZE_SIZE = 10 * 1024; // 10KB after optimization
+export const DEPENDENCY_SIZE_WARNING = 20 * 1024; // 20KB min+gzip
+export const DEPENDENCY_SIZE_CRITICAL = 50 * 1024; // 50KB min+gzip
 
 // ===================
 // Code Thresholds
@@ -49,6 +162,7 @@ export const INLINE_STYLE_THRESHOLD = 3;
 export const HEAVY_RENDER_MAP_THRESHOLD = 2;
 export const MEMO_LINE_THRESHOLD = 50;
 export const HIGH_DEPENDENCY_COUNT = 50;
+export const LARGE_OBJECT_CHARS = 500;
 
 // ===================
 // Scoring
@@ -56,7 +170,21 @@ export const HIGH_DEPENDENCY_COUNT = 50;
 export const SCORE_CRITICAL_PENALTY = 15;
 export const SCORE_WARNING_PENALTY = 5;
 export const SCORE_INFO_PENALTY = 1;
-export const SCORE_BASE_CHECKS = 10;
+export const SCORE_DEPENDENCY_WEIGHT = 1;
+export const SCORE_ASSET_WEIGHT = 1;
+export const SCORE_CODE_WEIGHT = 1;
+export const SCORE_CODE_LINES_PER_UNIT = 1000;
+export const SCORE_BREAKDOWN_LIMIT = 3; // deductions shown per category
+
+// ===================
+// Policy
+// ===================
+export const DEFAULT_FAIL_ON = ['critical'];
+export const FAIL_ON_NONE = 'none';
+
+export const EXIT_POLICY_FAILURE = 1;
+export const EXIT_INVALID_INPUT = 2;
+export const EXIT_SCANNER_ERROR = 3;
 
 // ===================
 // File Extensions
@@ -72,6 +200,12 @@ export const IMAGE_EXTENSIONS = [
 ];
 export const FONT_EXTENSIONS = ['.ttf', '.otf', '.woff', '.woff2'];
 export const CODE_EXTENSIONS = '**/*.{js,jsx,ts,tsx}';
+export const CODE_FILE_PATTERN = /\.[jt]sx?$/;
+export const IMPORT_SOURCE_GLOB = '**/*.{js,jsx,ts,tsx,mjs,cjs}';
+export const IMPORT_SOURCE_PATTERN = /\.([jt]sx?|[mc]js)$/;
+export const STYLESHEET_GLOB = '**/*.{css,scss,sass,less}';
+export const STYLESHEET_PATTERN = /\.(css|scss|sass|less)$/;
+export const ASSET_GLOB = '**/*.{png,jpg,jpeg,gif,webp,svg,ttf,otf,woff,woff2}';
 
 // ===================
 // Glob Patterns
@@ -91,61 +225,183 @@ export const CODE_IGNORE_PATTERNS = [
   '**/__tests__/**',
 ];
 
+// ===================
+// History
+// ===================
+export const HISTORY_FILE = '.perf-scan/history.jsonl';
+export const MAIN_BRANCHES = ['main', 'master'];
+export const HISTORY_LIMIT = 20; // runs shown by `history`
+export const SPARKLINE_CHARS = '▁▂▃▄▅▆▇█';
+
+// ===================
+// Watch Mode
+// ===================
+// Editors and formatters write several events per save
+export const WATCH_DEBOUNCE_MS = 200;
+
+// ===================
+// Git
+// ===================
+export const GIT_MAX_BUFFER = 64 * 1024 * 1024; // 64MB of diff output
+
+// ===================
+// Fixes
+// ===================
+export const DIFF_CONTEXT_LINES = 3;
+// Above this many line pairs a changed region is shown as fully replaced
+export const MAX_DIFF_CELLS = 4_000_000;
+
+// ===================
+// SVG
+// ===================
+export const SVG_MAX_DECIMALS = 3;
+export const SVG_PRECISE_NUMBER_THRESHOLD = 10;
+export const SVG_EDITORS = [
+  { name: 'Inkscape', pattern: /xmlns:(inkscape|sodipodi)=|<sodipodi:/ },
+  { name: 'Sketch', pattern: /xmlns:sketch=|Generator: Sketch/ },
+  {
+    name: 'Illustrator',
+    pattern: /Generator: Adobe Illustrator|xmlns:(i|x|graph)=|<i:pgf/,
+  },
+  { name: 'Figma', pattern: /Generator: Figma/ },
+];
+
+// Assets referenced by native projects or served as-is, not from JS
+export const NATIVE_ASSET_PATTERNS = [
+  '**/android/**',
+  '**/ios/**',
+  '**/*.xcassets/**',
+  '**/public/**',
+];
+
+// ===================
+// AST Checks
+// ===================
+export const CONSOLE_METHODS = ['log', 'warn', 'error', 'info', 'debug'];
+export const SYNC_FS_METHODS = ['readFileSync', 'writeFileSync', 'existsSync'];
+export const EFFECT_HOOKS = ['useEffect', 'useLayoutEffect'];
+export const LIST_COMPONENTS = ['FlatList', 'SectionList'];
+export const SCROLLVIEW_CHILD_THRESHOLD = 10;
+
 // ===================
 // Regex Patterns
 // ===================
-export const CONSOLE_LOG_PATTERN = /console\.(log|warn|error|info|debug)\s*\(/g;
-export const INLINE_FUNCTION_PATTERN =
-  /(?:on[A-Z]\w*|render\w*)\s*=\s*\{?\s*\(\s*\)\s*=>/g;
-export const INLINE_STYLE_PATTERN = /style\s*=\s*\{\s*\{/g;
-export const USE_EFFECT_NO_DEPS =
-  /useEffect\s*\(\s*\(\s*\)\s*=>\s*\{[^}]*\}\s*\)/g;
-export const HARDCODED_URL_PATTERN =
-  /['"`](https?:\/\/(?!localhost)[^'"`\s]+)['"`]/g;
-export const LARGE_OBJECT_PATTERN = /\{[^{}]{500,}\}/g;
-export const MAP_CALL_PATTERN = /map\s*\(/g;
+export const HARDCODED_URL_PATTERN = /^https?:\/\/(?!localhost)[^\s]+$/;
+export const INLINE_HANDLER_PATTERN = /^(on[A-Z]\w*|render\w*)$/;
+export const SUPPRESSION_PATTERN =
+  /\/[/*]\s*perf-scan-(disable-next-line|disable-line|disable)\b([^\n]*)/g;
+export const SOURCE_FILE_PATTERN = /\.[cm]?[jt]sx?$/;
 
 // ===================
 // Heavy Dependencies
 // ===================
 export const HEAVY_DEPS: HeavyDependency[] = [
-  {
-    name: 'moment',
-    size: '328KB',
-    alternative: 'date-fns (tree-shakeable) or dayjs (2KB)',
-  },
+  { name: 'moment', alternative: 'date-fns (tree-shakeable) or dayjs (2KB)' },
   {
     name: 'lodash',
-    size: '72KB',
     alternative: 'lodash-es or individual imports (lodash/debounce)',
   },
-  { name: 'axios', size: '14KB', alternative: 'native fetch (RN 0.72+) or ky' },
-  {
-    name: 'underscore',
-    size: '16KB',
-    alternative: 'lodash-es or native methods',
-  },
-  { name: 'jquery', size: '87KB', alternative: 'native DOM APIs' },
-  { name: 'bluebird', size: '80KB', alternative: 'native Promise' },
-  { name: 'request', size: '48KB', alternative: 'native fetch or node-fetch' },
-  { name: 'uuid', size: '12KB', alternative: 'crypto.randomUUID() (native)' },
-  { name: 'node-fetch', size: '8KB', alternative: 'native fetch (Node 18+)' },
-  {
-    name: 'core-js',
-    size: '200KB+',
-    alternative: 'Check if you really need all polyfills',
-  },
-  { name: 'ramda', size: '46KB', alternative: 'lodash-es or native methods' },
-  { name: 'rxjs', size: '50KB', alternative: 'Consider if you need full RxJS' },
-  {
-    name: 'immutable',
-    size: '64KB',
-    alternative: 'Immer (16KB) or native spread',
-  },
+  { name: 'axios', alternative: 'native fetch (RN 0.72+) or ky' },
+  { name: 'underscore', alternative: 'lodash-es or native methods' },
+  { name: 'jquery', alternative: 'native DOM APIs' },
+  { name: 'bluebird', alternative: 'native Promise' },
+  { name: 'request', alternative: 'native fetch or node-fetch' },
+  { name: 'uuid', alternative: 'crypto.randomUUID() (native)' },
+  { name: 'node-fetch', alternative: 'native fetch (Node 18+)' },
+  { name: 'core-js', alternative: 'Check if you really need all polyfills' },
+  { name: 'ramda', alternative: 'lodash-es or native methods' },
+  { name: 'rxjs', alternative: 'Consider if you need full RxJS' },
+  { name: 'immutable', alternative: 'Immer (16KB) or native spread' },
 ];
 
 export const CRITICAL_DEPS = ['moment', 'lodash'];
 
+// ===================
+// Lockfiles
+// ===================
+export const LOCKFILES: Lockfile[] = [
+  { file: 'package-lock.json', overrides: 'overrides' },
+  { file: 'npm-shrinkwrap.json', overrides: 'overrides' },
+  { file: 'yarn.lock', overrides: 'resolutions' },
+  { file: 'pnpm-lock.yaml', overrides: 'pnpm.overrides' },
+];
+
+// ===================
+// Dependency Sizes
+// ===================
+// package.json fields checked for the entry point, in Metro's order
+export const ENTRY_FIELDS = ['react-native', 'browser', 'module', 'main'];
+export const RESOLVE_EXTENSIONS = [
+  '.native.js',
+  '.js',
+  '.mjs',
+  '.cjs',
+  '.jsx',
+  '.json',
+];
+export const MAX_PACKAGE_FILES = 2000;
+
+// The app framework itself is not held to dependency size budgets
+export const FRAMEWORK_PACKAGES = [
+  'react',
+  'react-dom',
+  'react-native',
+  'expo',
+];
+
+// ===================
+// Dependency Usage
+// ===================
+// Files whose imports only need devDependencies
+export const DEV_FILE_PATTERNS = [
+  '**/*.test.*',
+  '**/*.spec.*',
+  '**/__tests__/**',
+  '**/__mocks__/**',
+  '**/*.stories.*',
+  '**/e2e/**',
+  '**/scripts/**',
+  '**/*.config.*',
+  '**/.*rc.*',
+  '**/jest.setup.*',
+];
+
+// Configs that reference packages by name rather than by import
+export const TOOL_CONFIG_FILES = [
+  'babel.config.js',
+  'babel.config.json',
+  '.babelrc',
+  '.babelrc.js',
+  'metro.config.js',
+  'react-native.config.js',
+  'jest.config.js',
+  'app.json',
+  'app.config.js',
+  'app.config.ts',
+];
+
+// Loaded by the toolchain or injected by compilers, never imported directly
+export const IMPLICIT_DEPENDENCIES = [
+  'react-native',
+  'expo',
+  '@babel/runtime',
+  'core-js',
+  'regenerator-runtime',
+  'tslib',
+];
+
+// Packages that break or bloat the bundle when more than one copy is installed
+export const SINGLETON_PACKAGES = [
+  'react',
+  'react-dom',
+  'react-native',
+  'react-native-svg',
+  'react-native-reanimated',
+  'react-native-gesture-handler',
+  'react-native-screens',
+  'react-native-safe-area-context',
+];
+
 // ===================
 // UI Constants
 // ===================
@@ -155,8 +411,28 @@ export const SEVERITY_ICONS: Record<Severity, string> = {
   info: 'i',
 };
 
+export const SEVERITY_SECTIONS: { severity: Severity; title: string }[] = [
+  { severity: 'critical', title: 'Critical Issues' },
+  { severity: 'warning', title: 'Warnings' },
+  { severity: 'info', title: 'Info' },
+];
+
+export const SEVERITY_WEIGHTS: Record<Severity, number> = {
+  critical: 100,
+  warning: 10,
+  info: 1,
+};
+
+export const PROJECT_FILE_LABEL = '(project)';
+
 export const CATEGORY_ICONS: Record<string, string> = {
   dependency: '[pkg]',
   asset: '[img]',
   code: '[src]',
 };
+
+export const CATEGORY_SECTIONS: { category: Category; title: string }[] = [
+  { category: 'dependency', title: 'Dependencies' },
+  { category: 'asset', title: 'Assets' },
+  { category: 'code', title: 'Code' },
+];
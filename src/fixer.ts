@@ -0,0 +1,838 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { AppliedFix, ScanConfig } from './types';
+import {
+  CODE_EXTENSIONS,
+  DIFF_CONTEXT_LINES,
+  MAX_DIFF_CELLS,
+} from './constants';
+import {
+  ParsedFile,
+  parseFile,
+  hasSyntaxErrors,
+  getPosition,
+  getJsxTagName,
+  isConsoleCall,
+  findDescendants,
+} from './scanners/ast';
+import { createSuppressionMatcher } from './suppressions';
+
+export interface FileFix {
+  file: string;
+  original: string;
+  fixed: string;
+  fixes: AppliedFix[];
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+  /** The fix this edit makes, unset for supporting edits such as imports */
+  fix?: AppliedFix;
+}
+
+interface FixContext {
+  parsed: ParsedFile;
+  content: string;
+  /** False for rules turned off in config or suppressed at the node */
+  canFix(rule: string, node: ts.Node): boolean;
+  /** Records a fix together with the edit that makes it */
+  addFix(
+    rule: string,
+    node: ts.Node,
+    description: string,
+    edit: TextEdit
+  ): void;
+  edits: TextEdit[];
+}
+
+/**
+ * Computes safe rewrites for the project's source files: full lodash
+ * imports become per-method imports, side-effect-free console calls are
+ * removed, and literal inline styles in React Native files are hoisted into
+ * `StyleSheet.create`. Edits are applied to the original text, so the rest
+ * of the file keeps its formatting. Files with syntax errors are skipped,
+ * and so is any file whose rewrite would not parse cleanly.
+ */
+export async function collectFixes(
+  projectPath: string,
+  config: ScanConfig
+): Promise<FileFix[]> {
+  const { glob } = await import('glob');
+  const files = await glob(CODE_EXTENSIONS, {
+    cwd: projectPath,
+    ignore: config.codeIgnorePatterns,
+  });
+  const fileFixes: FileFix[] = [];
+
+  for (const file of files.sort()) {
+    try {
+      const content = fs.readFileSync(path.join(projectPath, file), 'utf-8');
+      const fileFix = fixFile(file, content, config);
+      if (fileFix) fileFixes.push(fileFix);
+    } catch {
+      // Skip unreadable files
+    }
+  }
+
+  return fileFixes;
+}
+
+export function writeFixes(projectPath: string, fileFixes: FileFix[]): void {
+  for (const { file, fixed } of fileFixes) {
+    fs.writeFileSync(path.join(projectPath, file), fixed);
+  }
+}
+
+/**
+ * Formats the fixes as one unified diff with `a/` and `b/` prefixes, which
+ * `git apply` accepts from the project directory.
+ */
+export function formatFixDiff(fileFixes: FileFix[]): string {
+  return fileFixes
+    .map(({ file, original, fixed }) => createPatch(file, original, fixed))
+    .join('');
+}
+
+/**
+ * Creates a unified diff of one file with `DIFF_CONTEXT_LINES` of context.
+ */
+export function createPatch(
+  file: string,
+  original: string,
+  fixed: string
+): string {
+  const operations = diffLines(toLines(original), toLines(fixed));
+  const name = file.split(path.sep).join('/');
+  let patch = `--- a/${name}\n+++ b/${name}\n`;
+
+  for (const hunk of groupHunks(operations)) {
+    const oldLines = hunk.filter((op) => op.type !== '+');
+    const newLines = hunk.filter((op) => op.type !== '-');
+    // An empty side is numbered by the line the change follows
+    const oldStart =
+      oldLines.length > 0 ? oldLines[0].oldLine : hunk[0].oldLine;
+    const newStart =
+      newLines.length > 0 ? newLines[0].newLine : hunk[0].newLine;
+
+    patch += `@@ -${oldStart},${oldLines.length} +${newStart},${newLines.length} @@\n`;
+    patch += hunk.map((op) => `${op.type}${op.text}\n`).join('');
+  }
+
+  return patch;
+}
+
+// Helper functions
+
+function fixFile(
+  file: string,
+  content: string,
+  config: ScanConfig
+): FileFix | null {
+  const parsed = parseFile(file, content);
+  if (hasSyntaxErrors(parsed)) return null;
+
+  const isSuppressed = createSuppressionMatcher(content);
+  const context: FixContext = {
+    parsed,
+    content,
+    canFix: (rule, node) =>
+      config.rules[rule] !== 'off' &&
+      !isSuppressed(rule, getPosition(parsed, node).line),
+    addFix: (rule, node, description, edit) =>
+      context.edits.push({
+        ...edit,
+        fix: {
+          rule,
+          file,
+          line: getPosition(parsed, node).line,
+          description,
+        },
+      }),
+    edits: [],
+  };
+
+  fixLodashImports(context);
+  fixConsoleCalls(context);
+  fixInlineStyles(context);
+
+  if (context.edits.length === 0) return null;
+
+  const { text: fixed, accepted } = applyEdits(content, context.edits);
+
+  // A rewrite must never turn a valid file into a broken one
+  if (hasSyntaxErrors(parseFile(file, fixed))) return null;
+
+  // Only report fixes whose edit survived the overlap check
+  const fixes = context.edits
+    .filter((edit) => edit.fix && accepted.includes(edit))
+    .map((edit) => edit.fix as AppliedFix);
+
+  return { file, original: content, fixed, fixes };
+}
+
+/**
+ * `import { debounce, throttle as t } from 'lodash'` becomes one default
+ * import per method, which bundlers can load without the whole library.
+ */
+function fixLodashImports(context: FixContext): void {
+  const rule = 'dependency/lodash-full-import';
+  const { sourceFile } = context.parsed;
+
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier) ||
+      statement.moduleSpecifier.text !== 'lodash' ||
+      !context.canFix(rule, statement)
+    ) {
+      continue;
+    }
+
+    const clause = statement.importClause;
+    const bindings = clause?.namedBindings;
+
+    if (
+      !clause ||
+      clause.isTypeOnly ||
+      clause.name ||
+      !bindings ||
+      !ts.isNamedImports(bindings) ||
+      bindings.elements.length === 0
+    ) {
+      continue;
+    }
+
+    const methods = bindings.elements.map((element) => ({
+      local: element.name.text,
+      method: (element.propertyName || element.name).text,
+      isTypeOnly: element.isTypeOnly,
+    }));
+
+    // `chain` only works on the full lodash build
+    if (
+      methods.some(
+        ({ method, isTypeOnly }) =>
+          isTypeOnly || method === 'chain' || method === 'default'
+      )
+    ) {
+      continue;
+    }
+
+    const quote = statement.moduleSpecifier.getText(sourceFile)[0];
+    const semicolon = statement.getText(sourceFile).endsWith(';') ? ';' : '';
+
+    context.addFix(
+      rule,
+      statement,
+      `Import ${methods.map(({ method }) => `lodash/${method}`).join(', ')}`,
+      {
+        start: statement.getStart(sourceFile),
+        end: statement.getEnd(),
+        text: methods
+          .map(
+            ({ local, method }) =>
+              `import ${local} from ${quote}lodash/${method}${quote}${semicolon}`
+          )
+          .join('\n'),
+      }
+    );
+  }
+}
+
+/**
+ * Removes console calls that stand alone as statements. Calls whose
+ * arguments could have side effects, or whose removal would leave an
+ * `if` or loop without a body, are left alone.
+ */
+function fixConsoleCalls(context: FixContext): void {
+  const rule = 'code/console';
+  const { parsed, content } = context;
+
+  for (const node of parsed.nodes) {
+    if (
+      !ts.isExpressionStatement(node) ||
+      !isConsoleCall(node.expression) ||
+      !isStatementList(node.parent) ||
+      node.expression.arguments.some(hasSideEffects) ||
+      !context.canFix(rule, node)
+    ) {
+      continue;
+    }
+
+    const start = node.getStart(parsed.sourceFile);
+    const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = content.indexOf('\n', node.getEnd());
+    const isWholeLine =
+      content.slice(lineStart, start).trim() === '' &&
+      content
+        .slice(node.getEnd(), lineEnd === -1 ? undefined : lineEnd)
+        .trim() === '';
+
+    context.addFix(
+      rule,
+      node,
+      `Removed ${node.expression.expression.getText(parsed.sourceFile)}()`,
+      isWholeLine
+        ? {
+            start: lineStart,
+            end: lineEnd === -1 ? content.length : lineEnd + 1,
+            text: '',
+          }
+        : {
+            start,
+            end:
+              node.getEnd() +
+              (content.slice(node.getEnd()).match(/^[ \t]*/)?.[0].length || 0),
+            text: '',
+          }
+    );
+  }
+}
+
+/**
+ * Replaces literal `style={{ ... }}` objects, including objects inside style
+ * arrays, with entries of a module-level `StyleSheet.create` block. An
+ * existing `styles` sheet is extended; otherwise one is appended to the
+ * file. Only React Native files are rewritten, and only objects whose
+ * values are all literals, so nothing depends on render-time variables.
+ */
+function fixInlineStyles(context: FixContext): void {
+  const rule = 'code/inline-styles';
+  const { parsed, content } = context;
+  const { sourceFile } = parsed;
+
+  const reactNative = sourceFile.statements.find(
+    (statement): statement is ts.ImportDeclaration =>
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier) &&
+      statement.moduleSpecifier.text === 'react-native'
+  );
+  const bindings = reactNative?.importClause?.namedBindings;
+  if (!reactNative || reactNative.importClause?.isTypeOnly) return;
+  if (!bindings || !ts.isNamedImports(bindings)) return;
+
+  const candidates = parsed.nodes.filter(
+    (node): node is ts.ObjectLiteralExpression =>
+      ts.isObjectLiteralExpression(node) &&
+      isInlineStyleObject(node) &&
+      isStaticStyle(node) &&
+      context.canFix(rule, node)
+  );
+  if (candidates.length === 0) return;
+
+  const styleSheetImport = bindings.elements.find(
+    (element) => (element.propertyName || element.name).text === 'StyleSheet'
+  );
+  const styleSheet = styleSheetImport?.name.text || 'StyleSheet';
+  const sheet = findStyleSheet(sourceFile, styleSheet);
+
+  // Any other `styles` binding could shadow or clash with the sheet
+  const declaresStyles = parsed.nodes.some(
+    (node) =>
+      ts.isIdentifier(node) &&
+      node.text === 'styles' &&
+      isDeclarationName(node) &&
+      node.parent !== sheet?.declaration
+  );
+  if (declaresStyles) return;
+
+  const usedKeys = new Set(
+    sheet ? sheet.object.properties.map((p) => p.name?.getText(sourceFile)) : []
+  );
+  const keysByStyle = new Map<string, string>();
+  const entries: { key: string; node: ts.ObjectLiteralExpression }[] = [];
+
+  for (const node of candidates) {
+    const normalized = node.getText(sourceFile).replace(/\s+/g, ' ');
+    let key = keysByStyle.get(normalized);
+
+    if (!key) {
+      key = uniqueKey(toStyleKey(getStyledTag(node)), usedKeys);
+      usedKeys.add(key);
+      keysByStyle.set(normalized, key);
+      entries.push({ key, node });
+    }
+
+    context.addFix(rule, node, `Moved inline style to styles.${key}`, {
+      start: node.getStart(sourceFile),
+      end: node.getEnd(),
+      text: `styles.${key}`,
+    });
+  }
+
+  if (!styleSheetImport) {
+    const last = bindings.elements[bindings.elements.length - 1];
+    const isMultiline = bindings.getText(sourceFile).includes('\n');
+
+    context.edits.push({
+      start: last.getEnd(),
+      end: last.getEnd(),
+      text: isMultiline
+        ? `,\n${getIndent(content, last.getStart(sourceFile))}StyleSheet`
+        : ', StyleSheet',
+    });
+  }
+
+  if (sheet) {
+    addToStyleSheet(context, sheet.object, entries);
+  } else {
+    const body = entries
+      .map(({ key, node }) => `  ${key}: ${reindent(content, node, '  ')},\n`)
+      .join('');
+    const separator = content.endsWith('\n') ? '\n' : '\n\n';
+
+    context.edits.push({
+      start: content.length,
+      end: content.length,
+      text: `${separator}const styles = ${styleSheet}.create({\n${body}});\n`,
+    });
+  }
+}
+
+function addToStyleSheet(
+  context: FixContext,
+  object: ts.ObjectLiteralExpression,
+  entries: { key: string; node: ts.ObjectLiteralExpression }[]
+): void {
+  const { content, parsed } = context;
+  const properties = object.properties;
+  const closeBrace = object.getEnd() - 1;
+  const lineStart = content.lastIndexOf('\n', closeBrace - 1) + 1;
+  const braceOnOwnLine = content.slice(lineStart, closeBrace).trim() === '';
+  const indent =
+    properties.length > 0
+      ? getIndent(content, properties[0].getStart(parsed.sourceFile))
+      : `${getIndent(content, closeBrace)}  `;
+
+  if (properties.length > 0 && !properties.hasTrailingComma) {
+    const last = properties[properties.length - 1];
+    context.edits.push({ start: last.getEnd(), end: last.getEnd(), text: ',' });
+  }
+
+  const added = entries.map(
+    ({ key, node }) => `${key}: ${reindent(content, node, indent)},`
+  );
+
+  context.edits.push(
+    braceOnOwnLine
+      ? {
+          start: lineStart,
+          end: lineStart,
+          text: added.map((entry) => `${indent}${entry}\n`).join(''),
+        }
+      : { start: closeBrace, end: closeBrace, text: ` ${added.join(' ')} ` }
+  );
+}
+
+/**
+ * Finds a module-level `const styles = StyleSheet.create({ ... })`.
+ */
+function findStyleSheet(
+  sourceFile: ts.SourceFile,
+  styleSheet: string
+):
+  | { declaration: ts.VariableDeclaration; object: ts.ObjectLiteralExpression }
+  | undefined {
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) continue;
+
+    for (const declaration of statement.declarationList.declarations) {
+      const init = declaration.initializer;
+
+      if (
+        ts.isIdentifier(declaration.name) &&
+        declaration.name.text === 'styles' &&
+        init &&
+        ts.isCallExpression(init) &&
+        init.expression.getText(sourceFile) === `${styleSheet}.create` &&
+        init.arguments[0] &&
+        ts.isObjectLiteralExpression(init.arguments[0])
+      ) {
+        return { declaration, object: init.arguments[0] };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * `style={{ ... }}` or an object inside `style={[..., { ... }]}`.
+ */
+function isInlineStyleObject(node: ts.ObjectLiteralExpression): boolean {
+  const container = ts.isArrayLiteralExpression(node.parent)
+    ? node.parent.parent
+    : node.parent;
+
+  return (
+    ts.isJsxExpression(container) &&
+    ts.isJsxAttribute(container.parent) &&
+    container.parent.name.getText() === 'style'
+  );
+}
+
+function getStyledTag(node: ts.ObjectLiteralExpression): string {
+  const attribute = findAncestor(node, ts.isJsxAttribute);
+  const element = attribute?.parent.parent;
+
+  return element &&
+    (ts.isJsxOpeningElement(element) || ts.isJsxSelfClosingElement(element))
+    ? getJsxTagName(element)
+    : 'style';
+}
+
+function findAncestor<T extends ts.Node>(
+  node: ts.Node,
+  predicate: (node: ts.Node) => node is T
+): T | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if (predicate(current)) return current;
+  }
+
+  return undefined;
+}
+
+/**
+ * Objects whose values are literals, nested literal objects (e.g.
+ * `shadowOffset`) or arrays of them (e.g. `transform`).
+ */
+function isStaticStyle(node: ts.Expression): boolean {
+  if (ts.isObjectLiteralExpression(node)) {
+    return (
+      node.properties.length > 0 &&
+      node.properties.every(
+        (property) =>
+          ts.isPropertyAssignment(property) &&
+          !ts.isComputedPropertyName(property.name) &&
+          isStaticStyle(property.initializer)
+      )
+    );
+  }
+
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.every(isStaticStyle);
+  }
+
+  if (ts.isPrefixUnaryExpression(node)) {
+    return (
+      (node.operator === ts.SyntaxKind.MinusToken ||
+        node.operator === ts.SyntaxKind.PlusToken) &&
+      ts.isNumericLiteral(node.operand)
+    );
+  }
+
+  return (
+    ts.isStringLiteral(node) ||
+    ts.isNoSubstitutionTemplateLiteral(node) ||
+    ts.isNumericLiteral(node) ||
+    node.kind === ts.SyntaxKind.TrueKeyword ||
+    node.kind === ts.SyntaxKind.FalseKeyword ||
+    node.kind === ts.SyntaxKind.NullKeyword
+  );
+}
+
+function isStatementList(node: ts.Node): boolean {
+  return (
+    ts.isBlock(node) ||
+    ts.isSourceFile(node) ||
+    ts.isModuleBlock(node) ||
+    ts.isCaseClause(node) ||
+    ts.isDefaultClause(node)
+  );
+}
+
+/**
+ * Conservative: any call, assignment, update or `await` counts, so
+ * `console.log(items.pop())` is never removed.
+ */
+function hasSideEffects(node: ts.Node): boolean {
+  const isEffect = (child: ts.Node): child is ts.Node =>
+    ts.isCallExpression(child) ||
+    ts.isNewExpression(child) ||
+    ts.isTaggedTemplateExpression(child) ||
+    ts.isAwaitExpression(child) ||
+    ts.isYieldExpression(child) ||
+    ts.isDeleteExpression(child) ||
+    (ts.isPrefixUnaryExpression(child) &&
+      (child.operator === ts.SyntaxKind.PlusPlusToken ||
+        child.operator === ts.SyntaxKind.MinusMinusToken)) ||
+    ts.isPostfixUnaryExpression(child) ||
+    (ts.isBinaryExpression(child) &&
+      child.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+      child.operatorToken.kind <= ts.SyntaxKind.LastAssignment);
+
+  return isEffect(node) || findDescendants(node, isEffect).length > 0;
+}
+
+function isDeclarationName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+
+  return (
+    (ts.isVariableDeclaration(parent) ||
+      ts.isParameter(parent) ||
+      ts.isBindingElement(parent) ||
+      ts.isFunctionDeclaration(parent) ||
+      ts.isClassDeclaration(parent) ||
+      ts.isImportSpecifier(parent) ||
+      ts.isImportClause(parent) ||
+      ts.isNamespaceImport(parent)) &&
+    parent.name === node
+  );
+}
+
+/**
+ * `View` -> `view`, `Animated.View` -> `animatedView`.
+ */
+function toStyleKey(tag: string): string {
+  const words = tag.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const key = words
+    .map((word, index) =>
+      index === 0
+        ? word[0].toLowerCase() + word.slice(1)
+        : word[0].toUpperCase() + word.slice(1)
+    )
+    .join('');
+
+  return /^[A-Za-z]/.test(key) ? key : 'style';
+}
+
+function uniqueKey(base: string, used: Set<string | undefined>): string {
+  if (!used.has(base)) return base;
+
+  let index = 2;
+  while (used.has(`${base}${index}`)) index++;
+
+  return `${base}${index}`;
+}
+
+function getIndent(content: string, position: number): string {
+  const lineStart = content.lastIndexOf('\n', position - 1) + 1;
+  return content.slice(lineStart).match(/^[ \t]*/)?.[0] || '';
+}
+
+/**
+ * Moves a multi-line node to a new indentation level, keeping the relative
+ * indentation of its lines.
+ */
+function reindent(content: string, node: ts.Node, indent: string): string {
+  const [first, ...rest] = node.getText().split('\n');
+  const base = getIndent(content, node.getStart());
+
+  return [
+    first,
+    ...rest.map(
+      (line) =>
+        indent +
+        (line.startsWith(base) ? line.slice(base.length) : line.trimStart())
+    ),
+  ].join('\n');
+}
+
+/**
+ * Applies edits back to front so earlier offsets stay valid. Overlapping
+ * edits are dropped rather than merged; `accepted` holds the ones applied.
+ */
+function applyEdits(
+  content: string,
+  edits: TextEdit[]
+): { text: string; accepted: TextEdit[] } {
+  const sorted = [...edits].sort((a, b) => a.start - b.start);
+  const accepted: TextEdit[] = [];
+
+  for (const edit of sorted) {
+    const previous = accepted[accepted.length - 1];
+    if (previous && edit.start < previous.end) continue;
+    accepted.push(edit);
+  }
+
+  const text = accepted.reduceRight(
+    (result, edit) =>
+      result.slice(0, edit.start) + edit.text + result.slice(edit.end),
+    content
+  );
+
+  return { text, accepted };
+}
+
+interface DiffOperation {
+  type: ' ' | '-' | '+';
+  text: string;
+  /** 1-based line in the original, or the line it follows for additions */
+  oldLine: number;
+  newLine: number;
+}
+
+/**
+ * A last line without a newline carries the diff marker for it, so it
+ * compares unequal to the same text with a newline and prints as-is.
+ */
+function toLines(content: string): string[] {
+  const lines = content.split('\n');
+
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += '\n\\ No newline at end of file';
+  }
+
+  return lines;
+}
+
+/**
+ * Line diff by longest common subsequence. Fixes are local, so the common
+ * prefix and suffix are trimmed first and the table stays small; a middle
+ * larger than `MAX_DIFF_CELLS` is treated as fully replaced.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOperation[] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] ===
+      newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const types: DiffOperation['type'][] = [
+    ...Array(prefix).fill(' '),
+    ...diffMiddle(oldMiddle, newMiddle),
+    ...Array(suffix).fill(' '),
+  ];
+
+  const operations: DiffOperation[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+
+  for (const type of types) {
+    if (type === '+') {
+      operations.push({
+        type,
+        text: newLines[newIndex],
+        oldLine: oldIndex,
+        newLine: ++newIndex,
+      });
+    } else if (type === '-') {
+      operations.push({
+        type,
+        text: oldLines[oldIndex],
+        oldLine: ++oldIndex,
+        newLine: newIndex,
+      });
+    } else {
+      operations.push({
+        type,
+        text: oldLines[oldIndex],
+        oldLine: ++oldIndex,
+        newLine: ++newIndex,
+      });
+    }
+  }
+
+  return operations;
+}
+
+function diffMiddle(
+  oldLines: string[],
+  newLines: string[]
+): DiffOperation['type'][] {
+  if (oldLines.length * newLines.length > MAX_DIFF_CELLS) {
+    return [
+      ...oldLines.map(() => '-' as const),
+      ...newLines.map(() => '+' as const),
+    ];
+  }
+
+  // lengths[i][j]: LCS length of oldLines[i..] and newLines[j..]
+  const lengths = Array.from({ length: oldLines.length + 1 }, () =>
+    new Array<number>(newLines.length + 1).fill(0)
+  );
+
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        oldLines[i] === newLines[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const types: DiffOperation['type'][] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < oldLines.length || j < newLines.length) {
+    if (
+      i < oldLines.length &&
+      j < newLines.length &&
+      oldLines[i] === newLines[j]
+    ) {
+      types.push(' ');
+      i++;
+      j++;
+    } else if (
+      i < oldLines.length &&
+      (j === newLines.length || lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      types.push('-');
+      i++;
+    } else {
+      types.push('+');
+      j++;
+    }
+  }
+
+  return types;
+}
+
+/**
+ * Splits changes into hunks, merging changes whose context would overlap.
+ */
+function groupHunks(operations: DiffOperation[]): DiffOperation[][] {
+  const changed = operations
+    .map((op, index) => (op.type === ' ' ? -1 : index))
+    .filter((index) => index >= 0);
+  const hunks: DiffOperation[][] = [];
+  let start = -1;
+  let end = -1;
+
+  for (const index of changed) {
+    if (start >= 0 && index - DIFF_CONTEXT_LINES <= end + DIFF_CONTEXT_LINES) {
+      end = index;
+      continue;
+    }
+
+    if (start >= 0) hunks.push(sliceHunk(operations, start, end));
+    start = index;
+    end = index;
+  }
+
+  if (start >= 0) hunks.push(sliceHunk(operations, start, end));
+
+  return hunks;
+}
+
+function sliceHunk(
+  operations: DiffOperation[],
+  start: number,
+  end: number
+): DiffOperation[] {
+  return operations.slice(
+    Math.max(0, start - DIFF_CONTEXT_LINES),
+    end + DIFF_CONTEXT_LINES + 1
+  );
+}
@@ -0,0 +1,75 @@
+import { Issue, ScanResult } from '../types';
+import { getGrade, groupIssuesBySeverity } from '../reporter';
+import { TOOL_NAME, GITHUB_ANNOTATION_LEVELS } from '../constants';
+
+/**
+ * Emits GitHub Actions workflow commands (`::error file=...,line=...::`) so
+ * issues show up as annotations on the pull request diff. Dependency issues
+ * without a file are anchored to package.json.
+ */
+export function formatGitHub(result: ScanResult): string {
+  const lines: string[] = [];
+
+  for (const group of groupIssuesBySeverity(result.issues)) {
+    lines.push(...group.issues.map(formatAnnotation));
+  }
+
+  for (const violation of result.policy?.violations || []) {
+    lines.push(
+      `::${result.policy!.enforced ? 'error' : 'warning'} ` +
+        `title=${escapeProperty(`${TOOL_NAME} policy ${violation.policy}`)}::` +
+        escapeData(violation.message)
+    );
+  }
+
+  const { critical, warning, info } = result.summary;
+  lines.push(
+    `::notice title=${escapeProperty(TOOL_NAME)}::` +
+      escapeData(
+        `Performance score ${result.score}/100 (Grade ${getGrade(
+          result.score
+        )}): ${critical} critical, ${warning} warnings, ${info} info`
+      )
+  );
+
+  return lines.join('\n');
+}
+
+// Helper functions
+
+function formatAnnotation(issue: Issue): string {
+  const properties: string[] = [];
+
+  const file =
+    issue.file || (issue.category === 'dependency' ? 'package.json' : null);
+
+  if (file) {
+    properties.push(`file=${escapeProperty(file)}`);
+  }
+
+  if (issue.line) {
+    properties.push(`line=${issue.line}`);
+  }
+
+  if (issue.column) {
+    properties.push(`col=${issue.column}`);
+  }
+
+  properties.push(`title=${escapeProperty(`${issue.title} (${issue.rule})`)}`);
+
+  const message = issue.suggestion
+    ? `${issue.message}\n${issue.suggestion}`
+    : issue.message;
+
+  return `::${GITHUB_ANNOTATION_LEVELS[issue.severity]} ${properties.join(
+    ','
+  )}::${escapeData(message)}`;
+}
+
+function escapeData(text: string): string {
+  return text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function escapeProperty(text: string): string {
+  return escapeData(text).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
@@ -0,0 +1,364 @@
+import {
+  Issue,
+  PackageResult,
+  PolicyResult,
+  ScanResult,
+  Severity,
+  Category,
+} from '../types';
+import { getGrade, groupIssuesByFile, formatLocation } from '../reporter';
+import { TOOL_NAME, TOOL_VERSION } from '../constants';
+
+interface HTMLReportOptions {
+  projectName: string;
+  aiSuggestions?: string;
+}
+
+const SEVERITIES: Severity[] = ['critical', 'warning', 'info'];
+const CATEGORIES: Category[] = ['dependency', 'asset', 'code'];
+
+/**
+ * Renders a single offline HTML page. Styles and the sort/filter script are
+ * inlined so the file can be attached to tickets and opened anywhere.
+ */
+export function formatHTML(
+  result: ScanResult,
+  options: HTMLReportOptions
+): string {
+  const title = `${TOOL_NAME} report: ${options.projectName}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHTML(options.projectName)}</h1>
+  <p class="muted">Generated by ${TOOL_NAME} ${TOOL_VERSION} on ${escapeHTML(
+    new Date().toISOString()
+  )}</p>
+</header>
+<main>
+${renderScore(result)}
+${result.policy?.passed === false ? renderPolicy(result.policy) : ''}
+${result.packages ? renderPackages(result.packages) : ''}
+${renderCategorySummary(result.issues)}
+${result.baseline ? renderBaseline(result) : ''}
+${renderIssueTable(result.issues)}
+${renderFileBreakdown(result.issues)}
+${options.aiSuggestions ? renderAISuggestions(options.aiSuggestions) : ''}
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+// Helper functions
+
+function renderScore(result: ScanResult): string {
+  const { critical, warning, info, passed, suppressed } = result.summary;
+  const scoreClass =
+    result.score >= 80 ? 'good' : result.score >= 60 ? 'fair' : 'poor';
+
+  return `<section class="cards">
+  <div class="card score ${scoreClass}">
+    <div class="value">${result.score}<small>/100</small></div>
+    <div class="label">Grade ${escapeHTML(getGrade(result.score))}</div>
+  </div>
+  <div class="card critical"><div class="value">${critical}</div><div class="label">Critical</div></div>
+  <div class="card warning"><div class="value">${warning}</div><div class="label">Warnings</div></div>
+  <div class="card info"><div class="value">${info}</div><div class="label">Info</div></div>
+  <div class="card"><div class="value">${passed}</div><div class="label">Passed</div></div>
+  <div class="card"><div class="value">${suppressed}</div><div class="label">Suppressed</div></div>
+</section>`;
+}
+
+function renderPackages(packages: PackageResult[]): string {
+  const rows = packages
+    .map((pkg) => {
+      const { critical, warning, info } = pkg.summary;
+
+      return `<tr><th scope="row">${escapeHTML(
+        pkg.name
+      )}</th><td><code>${escapeHTML(pkg.path)}</code></td><td>${
+        pkg.score
+      }</td><td>${critical}</td><td>${warning}</td><td>${info}</td></tr>`;
+    })
+    .join('\n');
+
+  return `<section>
+  <h2>Packages</h2>
+  <table class="summary">
+    <thead><tr><th>Package</th><th>Path</th><th>Score</th><th>Critical</th><th>Warning</th><th>Info</th></tr></thead>
+    <tbody>
+${rows}
+    </tbody>
+  </table>
+</section>`;
+}
+
+function renderCategorySummary(issues: Issue[]): string {
+  const rows = CATEGORIES.map((category) => {
+    const inCategory = issues.filter((i) => i.category === category);
+    const cells = SEVERITIES.map(
+      (severity) =>
+        `<td>${inCategory.filter((i) => i.severity === severity).length}</td>`
+    ).join('');
+
+    return `<tr><th scope="row">${category}</th>${cells}<td>${inCategory.length}</td></tr>`;
+  }).join('\n');
+
+  return `<section>
+  <h2>Summary by category</h2>
+  <table class="summary">
+    <thead><tr><th>Category</th><th>Critical</th><th>Warning</th><th>Info</th><th>Total</th></tr></thead>
+    <tbody>
+${rows}
+    </tbody>
+  </table>
+</section>`;
+}
+
+function renderPolicy(policy: PolicyResult): string {
+  const violations = policy.violations
+    .map(
+      (violation) =>
+        `<li><code>${escapeHTML(violation.policy)}</code>: ${escapeHTML(
+          violation.message
+        )}</li>`
+    )
+    .join('\n');
+
+  return `<section class="policy">
+  <h2>Policy failed${policy.enforced ? '' : ' (not enforced)'}</h2>
+  <ul>${violations}</ul>
+</section>`;
+}
+
+function renderBaseline(result: ScanResult): string {
+  const baseline = result.baseline!;
+  const fixed = baseline.fixed
+    .map(
+      (entry) =>
+        `<li>${escapeHTML(entry.title)}${
+          entry.file ? ` <code>${escapeHTML(entry.file)}</code>` : ''
+        }</li>`
+    )
+    .join('\n');
+
+  return `<section>
+  <h2>Baseline</h2>
+  <p>${baseline.new} new, ${baseline.existing} existing, ${
+    baseline.fixed.length
+  } fixed</p>
+  ${
+    fixed
+      ? `<details><summary>Fixed issues</summary><ul>${fixed}</ul></details>`
+      : ''
+  }
+</section>`;
+}
+
+function renderIssueTable(issues: Issue[]): string {
+  if (issues.length === 0) {
+    return '<section><h2>Issues</h2><p>No issues found!</p></section>';
+  }
+
+  const severityOptions = SEVERITIES.map(
+    (s) => `<option value="${s}">${s}</option>`
+  ).join('');
+  const categoryOptions = CATEGORIES.map(
+    (c) => `<option value="${c}">${c}</option>`
+  ).join('');
+
+  return `<section>
+  <h2>Issues</h2>
+  <div class="filters">
+    <select data-filter="severity"><option value="">All severities</option>${severityOptions}</select>
+    <select data-filter="category"><option value="">All categories</option>${categoryOptions}</select>
+    <input type="search" data-filter="text" placeholder="Filter by text...">
+    <span class="muted" id="issue-count"></span>
+  </div>
+  <table class="issues sortable" id="issues">
+    <thead><tr>
+      <th data-sort="severity">Severity</th>
+      <th data-sort="text">Category</th>
+      <th data-sort="text">Rule</th>
+      <th data-sort="text">Issue</th>
+      <th data-sort="text">Location</th>
+    </tr></thead>
+    <tbody>
+${issues.map(renderIssueRow).join('\n')}
+    </tbody>
+  </table>
+</section>`;
+}
+
+function renderIssueRow(issue: Issue): string {
+  const location = formatLocation(issue);
+
+  return `<tr data-severity="${issue.severity}" data-category="${
+    issue.category
+  }">
+  <td data-value="${SEVERITIES.indexOf(issue.severity)}"><span class="badge ${
+    issue.severity
+  }">${issue.severity}</span></td>
+  <td>${issue.category}</td>
+  <td><code>${escapeHTML(issue.rule)}</code></td>
+  <td>${renderIssueDetails(issue)}</td>
+  <td><code>${escapeHTML(location)}</code></td>
+</tr>`;
+}
+
+function renderIssueDetails(issue: Issue): string {
+  return [
+    `<strong>${escapeHTML(issue.title)}</strong>`,
+    `<div>${escapeHTML(issue.message)}</div>`,
+    issue.suggestion
+      ? `<div class="suggestion">&rarr; ${escapeHTML(issue.suggestion)}</div>`
+      : '',
+    issue.impact
+      ? `<div class="muted">Impact: ${escapeHTML(issue.impact)}</div>`
+      : '',
+  ].join('');
+}
+
+function renderFileBreakdown(issues: Issue[]): string {
+  const files = groupIssuesByFile(issues);
+
+  if (files.length === 0) return '';
+
+  const rows = files
+    .map(([file, fileIssues]) => {
+      const counts = SEVERITIES.map(
+        (severity) =>
+          `<span class="badge ${severity}">${
+            fileIssues.filter((i) => i.severity === severity).length
+          }</span>`
+      ).join(' ');
+      const items = fileIssues
+        .map(
+          (issue) =>
+            `<li><span class="badge ${issue.severity}">${
+              issue.severity
+            }</span> ${issue.line ? `L${issue.line} ` : ''}${escapeHTML(
+              issue.title
+            )} <span class="muted">${escapeHTML(issue.message)}</span></li>`
+        )
+        .join('\n');
+
+      return `<details>
+  <summary><code>${escapeHTML(file)}</code> ${counts}</summary>
+  <ul>${items}</ul>
+</details>`;
+    })
+    .join('\n');
+
+  return `<section>
+  <h2>Files</h2>
+${rows}
+</section>`;
+}
+
+function renderAISuggestions(suggestions: string): string {
+  return `<section>
+  <h2>AI Analysis</h2>
+  <pre class="ai">${escapeHTML(suggestions)}</pre>
+</section>`;
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const STYLES = `
+body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+header { background: #0d1117; color: #fff; padding: 24px 32px; }
+header h1 { margin: 0; font-size: 22px; }
+header .muted { color: #8b949e; }
+main { padding: 24px 32px; max-width: 1200px; }
+section { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 16px 20px; margin-bottom: 20px; }
+h2 { font-size: 16px; margin: 0 0 12px; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #eaeef2; vertical-align: top; }
+th[data-sort] { cursor: pointer; user-select: none; }
+th[data-sort]:after { content: " \\2195"; color: #8b949e; }
+code { font: 12px ui-monospace, SFMono-Regular, Menlo, monospace; }
+.muted { color: #656d76; }
+.cards { display: flex; flex-wrap: wrap; gap: 12px; background: none; border: none; padding: 0; }
+.card { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 12px 20px; min-width: 90px; }
+.card .value { font-size: 28px; font-weight: 600; }
+.card .label { color: #656d76; }
+.score.good .value { color: #1a7f37; }
+.score.fair .value { color: #9a6700; }
+.score.poor .value, .card.critical .value { color: #cf222e; }
+.card.warning .value { color: #9a6700; }
+.card.info .value { color: #0969da; }
+.badge { display: inline-block; border-radius: 10px; padding: 0 8px; font-size: 12px; color: #fff; }
+.badge.critical { background: #cf222e; }
+.badge.warning { background: #bf8700; }
+.badge.info { background: #0969da; }
+.suggestion { color: #0550ae; }
+section.policy { border-color: #cf222e; }
+section.policy h2 { color: #cf222e; }
+.filters { display: flex; gap: 8px; align-items: center; margin-bottom: 12px; }
+.filters input { flex: 1; padding: 4px 8px; }
+details { border-bottom: 1px solid #eaeef2; padding: 6px 0; }
+summary { cursor: pointer; }
+pre.ai { white-space: pre-wrap; font: inherit; margin: 0; }
+`;
+
+const SCRIPT = `
+(function () {
+  var table = document.getElementById('issues');
+  if (!table) return;
+  var body = table.tBodies[0];
+  var filters = document.querySelectorAll('[data-filter]');
+  var count = document.getElementById('issue-count');
+
+  function applyFilters() {
+    var values = {};
+    filters.forEach(function (el) { values[el.getAttribute('data-filter')] = el.value.toLowerCase(); });
+    var shown = 0;
+    Array.prototype.forEach.call(body.rows, function (row) {
+      var visible =
+        (!values.severity || row.getAttribute('data-severity') === values.severity) &&
+        (!values.category || row.getAttribute('data-category') === values.category) &&
+        (!values.text || row.textContent.toLowerCase().indexOf(values.text) !== -1);
+      row.style.display = visible ? '' : 'none';
+      if (visible) shown++;
+    });
+    count.textContent = shown + ' of ' + body.rows.length + ' issues';
+  }
+
+  table.querySelectorAll('th[data-sort]').forEach(function (th, index) {
+    var ascending = true;
+    th.addEventListener('click', function () {
+      var numeric = th.getAttribute('data-sort') === 'severity';
+      var rows = Array.prototype.slice.call(body.rows);
+      rows.sort(function (a, b) {
+        var x = a.cells[index], y = b.cells[index];
+        var result = numeric
+          ? Number(x.getAttribute('data-value')) - Number(y.getAttribute('data-value'))
+          : x.textContent.localeCompare(y.textContent);
+        return ascending ? result : -result;
+      });
+      ascending = !ascending;
+      rows.forEach(function (row) { body.appendChild(row); });
+    });
+  });
+
+  filters.forEach(function (el) { el.addEventListener('input', applyFilters); });
+  applyFilters();
+})();
+`;
@@ -0,0 +1,255 @@
+import {
+  CountDelta,
+  Issue,
+  PackageResult,
+  PolicyResult,
+  ReportComparison,
+  ScanResult,
+} from '../types';
+import {
+  getGrade,
+  groupIssuesByFile,
+  groupIssuesBySeverity,
+  groupByCategoryAndFile,
+  formatLocation,
+} from '../reporter';
+import {
+  TOOL_NAME,
+  MARKDOWN_TOP_FILES,
+  PROJECT_FILE_LABEL,
+} from '../constants';
+
+/**
+ * Renders a compact summary meant to be posted as a pull request comment.
+ * Issue lists are collapsed per severity to keep the comment short.
+ */
+export function formatMarkdown(
+  result: ScanResult,
+  aiSuggestions?: string
+): string {
+  const { critical, warning, info, passed, suppressed } = result.summary;
+  const lines = [
+    `## ${TOOL_NAME}: ${result.score}/100 (Grade ${getGrade(result.score)})`,
+    '',
+    '| Critical | Warnings | Info | Passed | Suppressed |',
+    '| ---: | ---: | ---: | ---: | ---: |',
+    `| ${critical} | ${warning} | ${info} | ${passed} | ${suppressed} |`,
+    '',
+  ];
+
+  if (result.policy?.passed === false) {
+    lines.push(...renderPolicy(result.policy));
+  }
+
+  if (result.packages) {
+    lines.push(...renderPackages(result.packages));
+  }
+
+  if (result.baseline) {
+    lines.push(
+      `Baseline: **${result.baseline.new} new**, ` +
+        `${result.baseline.existing} existing, ` +
+        `${result.baseline.fixed.length} fixed`,
+      ''
+    );
+  }
+
+  if (result.issues.length === 0) {
+    lines.push('No issues found!', '');
+  }
+
+  lines.push(...renderTopFiles(result.issues));
+
+  for (const group of groupIssuesBySeverity(result.issues)) {
+    lines.push(
+      '<details>',
+      `<summary><strong>${group.title}</strong> (${group.issues.length})</summary>`,
+      '',
+      ...group.issues.map(renderIssue),
+      '',
+      '</details>',
+      ''
+    );
+  }
+
+  if (aiSuggestions) {
+    lines.push(
+      '<details>',
+      '<summary><strong>AI Analysis</strong></summary>',
+      '',
+      aiSuggestions,
+      '',
+      '</details>',
+      ''
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Renders a `compare` result: the score and severity deltas as a table,
+ * then the new, resolved and changed issues grouped by category and file.
+ */
+export function formatComparisonMarkdown(comparison: ReportComparison): string {
+  const { score, summary, newIssues, resolvedIssues, changedIssues } =
+    comparison;
+  const lines = [
+    `## ${TOOL_NAME}: ${score.before}/100 -> ${score.after}/100 (${formatDelta(
+      score
+    )})`,
+    '',
+    '| | Before | After | Change |',
+    '| --- | ---: | ---: | ---: |',
+    renderCountRow('Score', score),
+    renderCountRow('Critical', summary.critical),
+    renderCountRow('Warnings', summary.warning),
+    renderCountRow('Info', summary.info),
+    '',
+    `**${newIssues.length} new**, ${resolvedIssues.length} resolved, ` +
+      `${changedIssues.length} changed, ${comparison.unchanged} unchanged`,
+    '',
+  ];
+
+  lines.push(
+    ...renderComparisonSection(
+      'New issues',
+      newIssues,
+      (issue) => issue,
+      renderIssue
+    ),
+    ...renderComparisonSection(
+      'Resolved issues',
+      resolvedIssues,
+      (issue) => issue,
+      renderIssue
+    ),
+    ...renderComparisonSection(
+      'Changed issues',
+      changedIssues,
+      (change) => change.after,
+      ({ before, after }) =>
+        `${renderIssue(after)}<br>` +
+        `Was: ${before.severity}, ${escapeText(before.message)}`
+    )
+  );
+
+  if (comparison.aiSuggestions) {
+    lines.push(
+      '<details>',
+      '<summary><strong>AI Analysis</strong></summary>',
+      '',
+      comparison.aiSuggestions,
+      '',
+      '</details>',
+      ''
+    );
+  }
+
+  return lines.join('\n');
+}
+
+// Helper functions
+
+function renderCountRow(label: string, count: CountDelta): string {
+  return `| ${label} | ${count.before} | ${count.after} | ${formatDelta(
+    count
+  )} |`;
+}
+
+function formatDelta(count: CountDelta): string {
+  return count.delta > 0 ? `+${count.delta}` : String(count.delta);
+}
+
+function renderComparisonSection<T>(
+  title: string,
+  items: T[],
+  issueOf: (item: T) => Issue,
+  render: (item: T) => string
+): string[] {
+  if (items.length === 0) return [];
+
+  const lines = [`### ${title} (${items.length})`, ''];
+
+  for (const group of groupByCategoryAndFile(items, issueOf)) {
+    lines.push(`#### ${group.title}`, '');
+
+    for (const [file, fileItems] of group.files) {
+      lines.push(`\`${file}\``, '', ...fileItems.map(render), '');
+    }
+  }
+
+  return lines;
+}
+
+function renderPolicy(policy: PolicyResult): string[] {
+  return [
+    `**Policy failed${policy.enforced ? '' : ' (not enforced)'}:**`,
+    '',
+    ...policy.violations.map(
+      (violation) =>
+        `- \`${violation.policy}\`: ${escapeText(violation.message)}`
+    ),
+    '',
+  ];
+}
+
+function renderPackages(packages: PackageResult[]): string[] {
+  return [
+    '### Packages',
+    '',
+    '| Package | Score | Critical | Warnings | Info |',
+    '| --- | ---: | ---: | ---: | ---: |',
+    ...packages.map(
+      (pkg) =>
+        `| \`${escapeCell(pkg.name)}\` | ${pkg.score} | ` +
+        `${pkg.summary.critical} | ${pkg.summary.warning} | ${pkg.summary.info} |`
+    ),
+    '',
+  ];
+}
+
+function renderTopFiles(issues: Issue[]): string[] {
+  const files = groupIssuesByFile(issues)
+    .filter(([file]) => file !== PROJECT_FILE_LABEL)
+    .slice(0, MARKDOWN_TOP_FILES);
+
+  if (files.length === 0) return [];
+
+  return [
+    '### Top files',
+    '',
+    '| File | Critical | Warnings | Info |',
+    '| --- | ---: | ---: | ---: |',
+    ...files.map(
+      ([file, fileIssues]) =>
+        `| \`${escapeCell(file)}\` | ` +
+        `${fileIssues.filter((i) => i.severity === 'critical').length} | ` +
+        `${fileIssues.filter((i) => i.severity === 'warning').length} | ` +
+        `${fileIssues.filter((i) => i.severity === 'info').length} |`
+    ),
+    '',
+  ];
+}
+
+function renderIssue(issue: Issue): string {
+  const location = issue.file ? ` - \`${formatLocation(issue)}\`` : '';
+  const details = [escapeText(issue.message)];
+
+  if (issue.suggestion) {
+    details.push(`-> ${escapeText(issue.suggestion)}`);
+  }
+
+  return (
+    `- **${escapeText(issue.title)}** \`${issue.rule}\`${location}<br>` +
+    details.join('<br>')
+  );
+}
+
+function escapeText(text: string): string {
+  return text.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
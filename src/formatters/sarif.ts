@@ -0,0 +1,132 @@
+import { Issue, PolicyResult, ScanResult } from '../types';
+import { getRules } from '../rules';
+import {
+  SARIF_SCHEMA,
+  SARIF_LEVELS,
+  TOOL_NAME,
+  TOOL_VERSION,
+  TOOL_URL,
+} from '../constants';
+
+/**
+ * Renders a scan as a SARIF 2.1.0 log for code-scanning dashboards. File
+ * URIs are relative to the scanned project (`%SRCROOT%`); dependency issues
+ * without a file are anchored to package.json.
+ */
+export function formatSARIF(result: ScanResult): string {
+  const rules = getRules();
+  const ruleIds = rules.map((rule) => rule.id);
+
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            version: TOOL_VERSION,
+            informationUri: TOOL_URL,
+            rules: rules.map((rule) => ({
+              id: rule.id,
+              name: toRuleName(rule.id),
+              shortDescription: { text: rule.title },
+              fullDescription: { text: rule.description },
+              properties: { category: rule.category },
+            })),
+          },
+        },
+        results: result.issues.map((issue) => ({
+          ruleId: issue.rule,
+          ...(ruleIds.includes(issue.rule)
+            ? { ruleIndex: ruleIds.indexOf(issue.rule) }
+            : {}),
+          level: SARIF_LEVELS[issue.severity],
+          message: { text: buildMessage(issue) },
+          locations: buildLocations(issue),
+          ...(result.baseline ? { baselineState: 'new' } : {}),
+          properties: {
+            title: issue.title,
+            category: issue.category,
+            severity: issue.severity,
+            suggestion: issue.suggestion,
+            impact: issue.impact,
+          },
+        })),
+        ...(result.policy
+          ? { invocations: [buildInvocation(result.policy)] }
+          : {}),
+        properties: {
+          score: result.score,
+          summary: result.summary,
+        },
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
+
+// Helper functions
+
+/**
+ * Policy violations become tool notifications, so dashboards show why the
+ * run failed even when no single result did.
+ */
+function buildInvocation(policy: PolicyResult) {
+  return {
+    executionSuccessful: true,
+    toolExecutionNotifications: policy.violations.map((violation) => ({
+      level: policy.enforced ? 'error' : 'warning',
+      message: { text: `${violation.policy}: ${violation.message}` },
+    })),
+  };
+}
+
+function buildMessage(issue: Issue): string {
+  const parts = [`${issue.title}: ${issue.message}`];
+
+  if (issue.suggestion) {
+    parts.push(`Suggestion: ${issue.suggestion}`);
+  }
+
+  if (issue.impact) {
+    parts.push(`Impact: ${issue.impact}`);
+  }
+
+  return parts.join('\n');
+}
+
+function buildLocations(issue: Issue): object[] {
+  const file =
+    issue.file || (issue.category === 'dependency' ? 'package.json' : null);
+
+  if (!file) return [];
+
+  return [
+    {
+      physicalLocation: {
+        artifactLocation: {
+          uri: file.split('\\').join('/'),
+          uriBaseId: '%SRCROOT%',
+        },
+        ...(issue.line
+          ? { region: buildRegion(issue.line, issue.column) }
+          : {}),
+      },
+    },
+  ];
+}
+
+function buildRegion(line: number, column?: number): object {
+  return column
+    ? { startLine: line, startColumn: column }
+    : { startLine: line };
+}
+
+function toRuleName(id: string): string {
+  return id
+    .split(/[/-]/)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Category, HistoryEntry, ScanResult } from './types';
+import { HISTORY_FILE, MAIN_BRANCHES } from './constants';
+import { readGitHead } from './changes';
+
+export class HistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryError';
+  }
+}
+
+export interface Regression {
+  /** The main-branch run the score is compared with */
+  previous: HistoryEntry;
+  drop: number;
+  /** The largest drop allowed */
+  points: number;
+}
+
+export function createHistoryEntry(
+  projectPath: string,
+  result: ScanResult
+): HistoryEntry {
+  const head = readGitHead(projectPath);
+  const categories: Record<Category, number> = {
+    dependency: 0,
+    asset: 0,
+    code: 0,
+  };
+
+  for (const issue of result.issues) {
+    categories[issue.category]++;
+  }
+
+  return {
+    date: new Date().toISOString(),
+    sha: head?.sha,
+    branch: head?.branch,
+    score: result.score,
+    critical: result.summary.critical,
+    warning: result.summary.warning,
+    info: result.summary.info,
+    suppressed: result.summary.suppressed,
+    categories,
+  };
+}
+
+/**
+ * Appends one run to `.perf-scan/history.jsonl`. One JSON object per line
+ * keeps the file append-only and merge-friendly.
+ */
+export function appendHistory(projectPath: string, entry: HistoryEntry): void {
+  const filePath = path.join(projectPath, HISTORY_FILE);
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.appendFileSync(filePath, `${JSON.stringify(entry)}\n`);
+}
+
+/**
+ * Reads every recorded run, oldest first. A missing file is an empty
+ * history.
+ */
+export function readHistory(projectPath: string): HistoryEntry[] {
+  const filePath = path.join(projectPath, HISTORY_FILE);
+  if (!fs.existsSync(filePath)) return [];
+
+  const entries: HistoryEntry[] = [];
+  const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let entry: HistoryEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new HistoryError(
+        `Failed to parse ${HISTORY_FILE} line ${index + 1}: ${reason}`
+      );
+    }
+
+    if (typeof entry.score !== 'number') {
+      throw new HistoryError(
+        `Invalid entry in ${HISTORY_FILE} line ${index + 1}: missing score`
+      );
+    }
+
+    entries.push(entry);
+  });
+
+  return entries;
+}
+
+/**
+ * Compares a score with the most recent run recorded on a main branch.
+ * Returns null when there is no such run or the score dropped by `points`
+ * or less.
+ */
+export function findRegression(
+  history: HistoryEntry[],
+  score: number,
+  points: number
+): Regression | null {
+  const previous = [...history]
+    .reverse()
+    .find((entry) => entry.branch && MAIN_BRANCHES.includes(entry.branch));
+
+  if (!previous) return null;
+
+  const drop = previous.score - score;
+  return drop > points ? { previous, drop, points } : null;
+}
@@ -0,0 +1,25 @@
+import { PerfScanPlugin } from './types';
+
+/**
+ * Public API for plugin authors. The CLI itself lives in `cli.ts`.
+ */
+export type {
+  Category,
+  Issue,
+  PackageJson,
+  PerfScanPlugin,
+  PluginContext,
+  PluginIssue,
+  RuleMeta,
+  ScanConfig,
+  Severity,
+} from './types';
+
+/**
+ * Identity helper that gives plugin objects full type checking:
+ *
+ *   module.exports = definePlugin({ name: 'my-rules', rules: [...], scan })
+ */
+export function definePlugin<T extends PerfScanPlugin>(plugin: T): T {
+  return plugin;
+}
@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  Issue,
+  PackageJson,
+  PerfScanPlugin,
+  PluginContext,
+  PluginIssue,
+  PluginSpec,
+  ScanConfig,
+  Severity,
+} from './types';
+import { ConfigError } from './config';
+import { getRule, registerRules } from './rules';
+
+const SEVERITIES: Severity[] = ['critical', 'warning', 'info'];
+
+export class PluginError extends Error {
+  constructor(plugin: string, message: string) {
+    super(`Plugin "${plugin}": ${message}`);
+    this.name = 'PluginError';
+  }
+}
+
+/**
+ * Loads the plugins listed in config and registers their rules. Local paths
+ * (starting with `.` or `/`) resolve against the project; anything else is
+ * resolved as an npm package from the project's node_modules. A module may
+ * export a plugin object or a factory that receives the configured options.
+ */
+export function loadPlugins(
+  specs: PluginSpec[],
+  projectPath: string
+): PerfScanPlugin[] {
+  const plugins: PerfScanPlugin[] = [];
+
+  for (const spec of specs) {
+    const [name, options] = typeof spec === 'string' ? [spec, {}] : spec;
+    const plugin = instantiate(name, requirePlugin(name, projectPath), options);
+
+    for (const rule of plugin.rules || []) {
+      if (getRule(rule.id)) {
+        throw new ConfigError(
+          `Plugin "${plugin.name}" declares rule "${rule.id}" which already exists`
+        );
+      }
+    }
+
+    registerRules(plugin.rules || []);
+    plugins.push(plugin);
+  }
+
+  return plugins;
+}
+
+/**
+ * Runs one plugin and returns its issues. Errors thrown by the plugin are
+ * wrapped in a PluginError so the caller can report them and carry on with
+ * the remaining scanners.
+ */
+export async function runPlugin(
+  plugin: PerfScanPlugin,
+  projectPath: string,
+  config: ScanConfig,
+  files: string[]
+): Promise<Issue[]> {
+  const issues: Issue[] = [];
+  const declared = (plugin.rules || []).map((rule) => rule.id);
+  const contents = new Map<string, string>();
+
+  const context: PluginContext = {
+    projectPath,
+    files,
+    packageJson: readPackageJson(projectPath),
+    config,
+    readFile(file) {
+      if (!contents.has(file)) {
+        contents.set(
+          file,
+          fs.readFileSync(path.join(projectPath, file), 'utf-8')
+        );
+      }
+      return contents.get(file) as string;
+    },
+    report(issue) {
+      issues.push(toIssue(plugin, declared, issue));
+    },
+  };
+
+  try {
+    await plugin.scan(context);
+  } catch (error) {
+    if (error instanceof PluginError) throw error;
+
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new PluginError(plugin.name, reason);
+  }
+
+  return issues;
+}
+
+export async function listProjectFiles(
+  projectPath: string,
+  config: ScanConfig
+): Promise<string[]> {
+  const { glob } = await import('glob');
+
+  return glob('**/*', {
+    cwd: projectPath,
+    ignore: config.ignorePatterns,
+    nodir: true,
+    dot: false,
+  });
+}
+
+// Helper functions
+
+function requirePlugin(name: string, projectPath: string): unknown {
+  const isLocal = name.startsWith('.') || path.isAbsolute(name);
+
+  try {
+    const resolved = isLocal
+      ? path.resolve(projectPath, name)
+      : require.resolve(name, { paths: [projectPath] });
+
+    return require(resolved);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    // Drop Node's "Require stack" listing, it only points at our own files
+    throw new ConfigError(
+      `Failed to load plugin "${name}": ${reason.split('\n')[0]}`
+    );
+  }
+}
+
+function instantiate(
+  name: string,
+  loaded: unknown,
+  options: Record<string, unknown>
+): PerfScanPlugin {
+  const exported = (isObject(loaded) ? loaded.default : undefined) ?? loaded;
+  let plugin: unknown = exported;
+
+  if (typeof exported === 'function') {
+    try {
+      plugin = exported(options);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new ConfigError(`Failed to create plugin "${name}": ${reason}`);
+    }
+  }
+
+  if (!isPlugin(plugin)) {
+    throw new ConfigError(
+      `Plugin "${name}" must export an object with "name" and "scan"`
+    );
+  }
+
+  return plugin;
+}
+
+function isPlugin(value: unknown): value is PerfScanPlugin {
+  return (
+    isObject(value) &&
+    typeof value.name === 'string' &&
+    typeof value.scan === 'function'
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function toIssue(
+  plugin: PerfScanPlugin,
+  declared: string[],
+  issue: PluginIssue
+): Issue {
+  if (!declared.includes(issue.rule)) {
+    throw new PluginError(
+      plugin.name,
+      `reported undeclared rule "${issue.rule}"`
+    );
+  }
+
+  if (!SEVERITIES.includes(issue.severity)) {
+    throw new PluginError(
+      plugin.name,
+      `invalid severity "${issue.severity}" for rule "${issue.rule}"`
+    );
+  }
+
+  const rule = getRule(issue.rule);
+
+  return {
+    ...issue,
+    category: issue.category || rule?.category || 'code',
+  };
+}
+
+function readPackageJson(projectPath: string): PackageJson {
+  try {
+    return JSON.parse(
+      fs.readFileSync(path.join(projectPath, 'package.json'), 'utf-8')
+    );
+  } catch {
+    return {};
+  }
+}
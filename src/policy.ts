@@ -0,0 +1,131 @@
+import {
+  Category,
+  PolicyConfig,
+  PolicyResult,
+  PolicyViolation,
+  ScanResult,
+  Severity,
+} from './types';
+import {
+  CATEGORY_SECTIONS,
+  SEVERITY_SECTIONS,
+  FAIL_ON_NONE,
+} from './constants';
+import { Regression } from './history';
+
+interface FailOnRule {
+  severity: Severity;
+  category?: Category;
+}
+
+/**
+ * Checks a `failOn` entry: `none`, a severity, or `<severity>:<category>`.
+ * Returns an error message, or null when the entry is valid.
+ */
+export function validateFailOn(spec: string): string | null {
+  if (spec === FAIL_ON_NONE) return null;
+
+  const [severity, category, ...rest] = spec.split(':');
+  const severities = SEVERITY_SECTIONS.map((section) => section.severity);
+  const categories = CATEGORY_SECTIONS.map((section) => section.category);
+
+  if (!severities.includes(severity as Severity) || rest.length > 0) {
+    return `"${spec}" must be ${FAIL_ON_NONE}, a severity (${severities.join(
+      ', '
+    )}) or <severity>:<category>`;
+  }
+  if (category !== undefined && !categories.includes(category as Category)) {
+    return `"${spec}" has an unknown category (expected one of: ${categories.join(
+      ', '
+    )})`;
+  }
+
+  return null;
+}
+
+/**
+ * Evaluates the policy against a finished scan. A score regression found
+ * by `--fail-on-regression` counts as one more violation.
+ */
+export function evaluatePolicy(
+  result: ScanResult,
+  policy: PolicyConfig,
+  regression?: Regression | null
+): PolicyResult {
+  const violations: PolicyViolation[] = [];
+
+  for (const spec of policy.failOn) {
+    if (spec === FAIL_ON_NONE) continue;
+
+    const rule = parseFailOn(spec);
+    const matching = result.issues.filter(
+      (issue) =>
+        severityRank(issue.severity) <= severityRank(rule.severity) &&
+        (!rule.category || issue.category === rule.category)
+    );
+
+    if (matching.length > 0) {
+      violations.push({
+        policy: `--fail-on ${spec}`,
+        message: `${matching.length} ${
+          rule.category ? `${rule.category} ` : ''
+        }issue(s) at ${rule.severity} or above`,
+      });
+    }
+  }
+
+  if (policy.minScore !== undefined && result.score < policy.minScore) {
+    violations.push({
+      policy: `--min-score ${policy.minScore}`,
+      message: `Score ${result.score} is below ${policy.minScore}`,
+    });
+  }
+
+  if (
+    policy.maxWarnings !== undefined &&
+    result.summary.warning > policy.maxWarnings
+  ) {
+    violations.push({
+      policy: `--max-warnings ${policy.maxWarnings}`,
+      message: `${result.summary.warning} warnings, more than ${policy.maxWarnings}`,
+    });
+  }
+
+  if (regression) {
+    const { previous, drop, points } = regression;
+    violations.push({
+      policy: `--fail-on-regression ${points}`,
+      message:
+        `Score dropped ${drop} points from ${previous.score} ` +
+        `(${previous.branch} at ${
+          previous.sha?.slice(0, 7) || 'unknown commit'
+        })`,
+    });
+  }
+
+  return {
+    passed: violations.length === 0,
+    enforced: !policy.neverFail,
+    violations,
+  };
+}
+
+// Helper functions
+
+function parseFailOn(spec: string): FailOnRule {
+  const [severity, category] = spec.split(':');
+
+  return {
+    severity: severity as Severity,
+    category: category as Category | undefined,
+  };
+}
+
+/**
+ * 0 for the most severe, following `SEVERITY_SECTIONS`.
+ */
+function severityRank(severity: Severity): number {
+  return SEVERITY_SECTIONS.findIndex(
+    (section) => section.severity === severity
+  );
+}
@@ -1,6 +1,30 @@
 import chalk from 'chalk';
-import { ScanResult, Issue, Severity } from './types';
-import { SEVERITY_ICONS, CATEGORY_ICONS } from './constants';
+import {
+  ScanResult,
+  Issue,
+  Severity,
+  BaselineSummary,
+  IssueGroup,
+  PackageResult,
+  AppliedFix,
+  BaselineEntry,
+  HistoryEntry,
+  ReportComparison,
+  CountDelta,
+  PolicyResult,
+  AIFix,
+} from './types';
+import {
+  SEVERITY_ICONS,
+  CATEGORY_ICONS,
+  SEVERITY_SECTIONS,
+  SEVERITY_WEIGHTS,
+  PROJECT_FILE_LABEL,
+  SPARKLINE_CHARS,
+  CATEGORY_SECTIONS,
+  SCORE_BREAKDOWN_LIMIT,
+} from './constants';
+import { formatSize } from './scanners/footprint';
 
 export function printHeader(): void {
   console.log('');
@@ -9,7 +33,7 @@ export function printHeader(): void {
   console.log('');
 }
 
-export function printScore(result: ScanResult): void {
+export function printScore(result: ScanResult, verbose = false): void {
   const grade = getGrade(result.score);
   const coloredScore = colorizeScore(result.score);
 
@@ -19,6 +43,7 @@ export function printScore(result: ScanResult): void {
   console.log('');
 
   printSummary(result);
+  printBreakdown(result, verbose);
 }
 
 export function printIssues(issues: Issue[], verbose: boolean): void {
@@ -27,26 +52,324 @@ export function printIssues(issues: Issue[], verbose: boolean): void {
     return;
   }
 
-  const critical = issues.filter((i) => i.severity === 'critical');
-  const warnings = issues.filter((i) => i.severity === 'warning');
-  const info = issues.filter((i) => i.severity === 'info');
+  for (const group of groupIssuesBySeverity(issues)) {
+    if (group.severity !== 'info' || verbose) {
+      printSection(group.title, group.severity, group.issues, verbose);
+    } else {
+      console.log(
+        chalk.gray(
+          `  + ${group.issues.length} info items (use --verbose to see)`
+        )
+      );
+      console.log('');
+    }
+  }
+}
+
+/**
+ * Formats `file`, `file:line` or `file:line:column` for an issue. Returns an
+ * empty string for project-level issues.
+ */
+export function formatLocation(issue: Issue): string {
+  if (!issue.file) return '';
+  if (!issue.line) return issue.file;
+
+  return issue.column
+    ? `${issue.file}:${issue.line}:${issue.column}`
+    : `${issue.file}:${issue.line}`;
+}
+
+/**
+ * Splits issues into the non-empty severity sections shown by every
+ * reporter, most severe first.
+ */
+export function groupIssuesBySeverity(issues: Issue[]): IssueGroup[] {
+  return SEVERITY_SECTIONS.map(({ severity, title }) => ({
+    severity,
+    title,
+    issues: issues.filter((i) => i.severity === severity),
+  })).filter((group) => group.issues.length > 0);
+}
+
+/**
+ * Groups issues by file, worst files first. Project-level issues without a
+ * file are grouped under `PROJECT_FILE_LABEL`.
+ */
+export function groupIssuesByFile(issues: Issue[]): [string, Issue[]][] {
+  const byFile = new Map<string, Issue[]>();
+
+  for (const issue of issues) {
+    const file = issue.file || PROJECT_FILE_LABEL;
+    byFile.set(file, [...(byFile.get(file) || []), issue]);
+  }
+
+  return [...byFile.entries()].sort(
+    (a, b) => weighIssues(b[1]) - weighIssues(a[1]) || a[0].localeCompare(b[0])
+  );
+}
+
+/**
+ * Groups items by category in `CATEGORY_SECTIONS` order, then by file.
+ * `issueOf` picks the issue that decides where an item goes.
+ */
+export function groupByCategoryAndFile<T>(
+  items: T[],
+  issueOf: (item: T) => Issue
+): { title: string; files: [string, T[]][] }[] {
+  return CATEGORY_SECTIONS.map(({ category, title }) => {
+    const byFile = new Map<string, T[]>();
+
+    for (const item of items) {
+      const issue = issueOf(item);
+      if (issue.category !== category) continue;
+
+      const file = issue.file || PROJECT_FILE_LABEL;
+      byFile.set(file, [...(byFile.get(file) || []), item]);
+    }
+
+    return {
+      title,
+      files: [...byFile.entries()].sort((a, b) => a[0].localeCompare(b[0])),
+    };
+  }).filter((group) => group.files.length > 0);
+}
+
+export function printBaseline(
+  baseline: BaselineSummary,
+  verbose: boolean
+): void {
+  console.log(chalk.bold('  Baseline'));
+  console.log('');
+  console.log(
+    `  ${chalk.red(`${baseline.new} new`)}  ` +
+      `${chalk.gray(`${baseline.existing} existing`)}  ` +
+      `${chalk.green(`${baseline.fixed.length} fixed`)}`
+  );
+
+  if (baseline.fixed.length > 0) {
+    console.log('');
+
+    const shown = verbose ? baseline.fixed : baseline.fixed.slice(0, 5);
+    for (const entry of shown) {
+      const location = entry.file ? ` ${chalk.gray(entry.file)}` : '';
+      console.log(`  ${chalk.green('[fixed]')} ${entry.title}${location}`);
+    }
+
+    if (shown.length < baseline.fixed.length) {
+      console.log(
+        chalk.gray(
+          `  + ${
+            baseline.fixed.length - shown.length
+          } more (use --verbose to see)`
+        )
+      );
+    }
 
-  if (critical.length > 0) {
-    printSection('Critical Issues', 'critical', critical, verbose);
+    console.log(
+      chalk.gray('  Re-run with --write-baseline to tighten the baseline')
+    );
+  }
+
+  console.log('');
+}
+
+export function printPackages(packages: PackageResult[]): void {
+  console.log(chalk.bold('  Packages'));
+  console.log('');
+
+  const width = Math.max(...packages.map((pkg) => pkg.name.length));
+  const sorted = [...packages].sort(
+    (a, b) => a.score - b.score || a.name.localeCompare(b.name)
+  );
+
+  for (const pkg of sorted) {
+    const { critical, warning, info } = pkg.summary;
+    console.log(
+      `  ${pkg.name.padEnd(width)}  ${colorizeScore(pkg.score)}  ` +
+        chalk.gray(`${critical} critical, ${warning} warnings, ${info} info`)
+    );
   }
 
-  if (warnings.length > 0) {
-    printSection('Warnings', 'warning', warnings, verbose);
+  console.log('');
+}
+
+/**
+ * Prints what changed since the previous watch run.
+ */
+export function printWatchDelta(
+  added: Issue[],
+  resolved: BaselineEntry[]
+): void {
+  if (added.length === 0 && resolved.length === 0) {
+    console.log(chalk.gray('  No new or resolved issues'));
+    console.log('');
+    return;
   }
 
-  if (verbose && info.length > 0) {
-    printSection('Info', 'info', info, verbose);
-  } else if (info.length > 0) {
+  console.log(
+    `  ${chalk.red(`${added.length} new`)}  ` +
+      chalk.green(`${resolved.length} resolved`)
+  );
+  console.log('');
+
+  for (const issue of added) {
+    const location = formatLocation(issue);
     console.log(
-      chalk.gray(`  + ${info.length} info items (use --verbose to see)`)
+      `  ${chalk.red('[new]')} ${SEVERITY_ICONS[issue.severity]} ${
+        issue.title
+      }${location ? ` ${chalk.gray(location)}` : ''}`
     );
+  }
+
+  for (const entry of resolved) {
+    const location = entry.file ? ` ${chalk.gray(entry.file)}` : '';
+    console.log(`  ${chalk.green('[resolved]')} ${entry.title}${location}`);
+  }
+
+  console.log('');
+}
+
+export function printFixes(fixes: AppliedFix[], verbose: boolean): void {
+  const files = new Set(fixes.map((fix) => fix.file));
+
+  console.log(chalk.bold('  Fixes'));
+  console.log('');
+  console.log(
+    chalk.green(`  Applied ${fixes.length} fix(es) in ${files.size} file(s)`)
+  );
+
+  if (fixes.length > 0) {
     console.log('');
+
+    const shown = verbose ? fixes : fixes.slice(0, 5);
+    for (const fix of shown) {
+      console.log(
+        `  ${chalk.green('[fixed]')} ${fix.description} ` +
+          chalk.gray(`${fix.file}:${fix.line}`)
+      );
+    }
+
+    if (shown.length < fixes.length) {
+      console.log(
+        chalk.gray(
+          `  + ${fixes.length - shown.length} more (use --verbose to see)`
+        )
+      );
+    }
   }
+
+  console.log('');
+}
+
+export function printHistory(entries: HistoryEntry[]): void {
+  console.log(chalk.bold('  Score History'));
+  console.log('');
+
+  if (entries.length === 0) {
+    console.log(
+      chalk.gray('  No runs recorded yet. Scan with --record-history first.')
+    );
+    console.log('');
+    return;
+  }
+
+  console.log(
+    `  ${chalk.cyan(sparkline(entries.map((entry) => entry.score)))}  ` +
+      chalk.gray(`last ${entries.length} run(s)`)
+  );
+  console.log('');
+
+  entries.forEach((entry, index) => {
+    const change =
+      index > 0 ? formatChange(entry.score - entries[index - 1].score) : '    ';
+    const commit = entry.sha ? entry.sha.slice(0, 7) : '-------';
+
+    console.log(
+      `  ${entry.date.slice(0, 16).replace('T', ' ')}  ${commit}  ` +
+        `${(entry.branch || '-').padEnd(12)}  ${colorizeScore(entry.score)} ` +
+        `${change}  ` +
+        chalk.gray(
+          `${entry.critical} critical, ${entry.warning} warnings, ${entry.info} info`
+        )
+    );
+  });
+
+  console.log('');
+}
+
+export function printComparison(comparison: ReportComparison): void {
+  const { score, summary, newIssues, resolvedIssues, changedIssues } =
+    comparison;
+
+  console.log(chalk.bold('  Comparison'));
+  console.log('');
+  console.log(
+    `  ${colorizeScore(score.before)} -> ${colorizeScore(score.after)} ` +
+      formatChange(score.delta)
+  );
+  console.log('');
+  console.log(
+    `  ${chalk.red('critical')} ${formatCount(summary.critical)}  ` +
+      `${chalk.yellow('warnings')} ${formatCount(summary.warning)}  ` +
+      `${chalk.blue('info')} ${formatCount(summary.info)}`
+  );
+  console.log(
+    `  ${chalk.red(`${newIssues.length} new`)}  ` +
+      `${chalk.green(`${resolvedIssues.length} resolved`)}  ` +
+      `${chalk.yellow(`${changedIssues.length} changed`)}  ` +
+      chalk.gray(`${comparison.unchanged} unchanged`)
+  );
+  console.log('');
+
+  printComparisonSection(
+    'New Issues',
+    newIssues,
+    (issue) => issue,
+    formatIssueLine
+  );
+  printComparisonSection(
+    'Resolved Issues',
+    resolvedIssues,
+    (issue) => issue,
+    formatIssueLine
+  );
+  printComparisonSection(
+    'Changed Issues',
+    changedIssues,
+    (change) => change.after,
+    (change) => {
+      const { before, after } = change;
+      const lines = [`${formatSeverity(before)} -> ${formatIssueLine(after)}`];
+
+      if (before.message !== after.message) {
+        lines.push(
+          `    ${chalk.red('-')} ${before.message}`,
+          `    ${chalk.green('+')} ${after.message}`
+        );
+      }
+
+      return lines.join('\n      ');
+    }
+  );
+}
+
+export function printPolicy(policy: PolicyResult): void {
+  if (policy.passed) return;
+
+  const title = `Policy failed${policy.enforced ? '' : ' (not enforced)'}`;
+
+  console.log(chalk.red.bold(`  ${title}`));
+  console.log(chalk.gray(`  ${'-'.repeat(title.length)}`));
+
+  for (const violation of policy.violations) {
+    console.log(
+      `  ${chalk.red('[X]')} ${violation.message} ${chalk.gray(
+        violation.policy
+      )}`
+    );
+  }
+
+  console.log('');
 }
 
 export function printAISuggestions(suggestions: string): void {
@@ -60,8 +383,8 @@ export function printAISuggestions(suggestions: string): void {
   console.log('');
 }
 
-export function printJSON(result: ScanResult, aiSuggestions?: string): void {
-  console.log(JSON.stringify({ ...result, aiSuggestions }, null, 2));
+export function formatJSON(result: ScanResult, aiSuggestions?: string): string {
+  return JSON.stringify({ ...result, aiSuggestions }, null, 2);
 }
 
 export function printFooter(): void {
@@ -71,9 +394,7 @@ export function printFooter(): void {
   console.log('');
 }
 
-// Helper functions
-
-function getGrade(score: number): string {
+export function getGrade(score: number): string {
   if (score >= 90) return 'A+';
   if (score >= 80) return 'A';
   if (score >= 70) return 'B';
@@ -83,6 +404,94 @@ function getGrade(score: number): string {
   return 'F';
 }
 
+// Helper functions
+
+function sparkline(values: number[]): string {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const steps = SPARKLINE_CHARS.length - 1;
+
+  return values
+    .map((value) =>
+      max === min
+        ? SPARKLINE_CHARS[steps]
+        : SPARKLINE_CHARS[Math.round(((value - min) / (max - min)) * steps)]
+    )
+    .join('');
+}
+
+/**
+ * A signed change, green when it goes the good way. Scores should rise,
+ * issue counts should fall.
+ */
+function formatChange(change: number, higherIsBetter = true): string {
+  const text = (
+    change > 0 ? `+${change}` : change < 0 ? `${change}` : '±0'
+  ).padStart(4);
+
+  if (change === 0) return chalk.gray(text);
+
+  return change > 0 === higherIsBetter ? chalk.green(text) : chalk.red(text);
+}
+
+function formatCount(count: CountDelta): string {
+  return `${count.before} -> ${count.after} (${formatChange(
+    count.delta,
+    false
+  ).trim()})`;
+}
+
+function formatSeverity(issue: Issue): string {
+  return getSeverityColor(issue.severity)(
+    `[${SEVERITY_ICONS[issue.severity]}]`
+  );
+}
+
+function formatIssueLine(issue: Issue): string {
+  const line = issue.line ? chalk.gray(` line ${issue.line}`) : '';
+
+  return (
+    `${formatSeverity(issue)} ${chalk.bold(issue.title)} ` +
+    `${chalk.gray(issue.rule)}${line}`
+  );
+}
+
+function printComparisonSection<T>(
+  title: string,
+  items: T[],
+  issueOf: (item: T) => Issue,
+  format: (item: T) => string
+): void {
+  if (items.length === 0) return;
+
+  const heading = `${title} (${items.length})`;
+
+  console.log(chalk.bold(`  ${heading}`));
+  console.log(chalk.gray(`  ${'-'.repeat(heading.length)}`));
+
+  for (const group of groupByCategoryAndFile(items, issueOf)) {
+    console.log('');
+    console.log(`  ${chalk.bold(group.title)}`);
+
+    for (const [file, fileItems] of group.files) {
+      console.log(`    ${chalk.gray(file)}`);
+
+      for (const item of fileItems) {
+        console.log(`      ${format(item)}`);
+      }
+    }
+  }
+
+  console.log('');
+}
+
+function weighIssues(issues: Issue[]): number {
+  return issues.reduce(
+    (total, issue) => total + SEVERITY_WEIGHTS[issue.severity],
+    0
+  );
+}
+
 function colorizeScore(score: number): string {
   const text = `${score}/100`;
 
@@ -100,7 +509,7 @@ function getSeverityColor(severity: Severity): (text: string) => string {
 }
 
 function printSummary(result: ScanResult): void {
-  const { critical, warning, info, passed } = result.summary;
+  const { critical, warning, info, passed, suppressed } = result.summary;
   const total = critical + warning + info + passed;
 
   if (total > 0) {
@@ -108,13 +517,74 @@ function printSummary(result: ScanResult): void {
       `  ${chalk.red(`${critical} critical`)}  ` +
         `${chalk.yellow(`${warning} warnings`)}  ` +
         `${chalk.blue(`${info} info`)}  ` +
-        `${chalk.green(`${passed} passed`)}`
+        `${chalk.green(`${passed} passed`)}` +
+        (suppressed > 0 ? `  ${chalk.gray(`${suppressed} suppressed`)}` : '')
     );
   }
 
   console.log('');
 }
 
+/**
+ * Prints each category's sub-score and the rules that cost it points.
+ */
+function printBreakdown(result: ScanResult, verbose: boolean): void {
+  if (result.categories.length === 0) return;
+
+  const { codeFiles, codeLines } = result.coverage;
+
+  for (const category of result.categories) {
+    const title = CATEGORY_SECTIONS.find(
+      (section) => section.category === category.category
+    )!.title;
+    const size =
+      category.category === 'code'
+        ? `, ${codeFiles} files, ${codeLines} lines`
+        : '';
+
+    console.log(
+      `  ${title.padEnd(12)} ${' '.repeat(
+        category.score < 100 ? 1 : 0
+      )}${colorizeScore(category.score)}  ` +
+        chalk.gray(
+          `weight ${Math.round(category.weight * 100)}%, ` +
+            `${category.passed}/${category.checks} checks passed${size}`
+        )
+    );
+
+    const shown = verbose
+      ? category.deductions
+      : category.deductions.slice(0, SCORE_BREAKDOWN_LIMIT);
+    for (const deduction of shown) {
+      const points = `-${deduction.points}`.padStart(7);
+      const bytes = result.issues
+        .filter((issue) => issue.rule === deduction.rule)
+        .reduce((total, issue) => total + (issue.size || 0), 0);
+      console.log(
+        `    ${getSeverityColor(deduction.severity)(points)}  ` +
+          `${deduction.rule} ` +
+          chalk.gray(
+            `(${deduction.count} ${deduction.severity}` +
+              (bytes > 0 ? `, ${formatSize(bytes)}` : '') +
+              ')'
+          )
+      );
+    }
+
+    if (shown.length < category.deductions.length) {
+      console.log(
+        chalk.gray(
+          `           + ${
+            category.deductions.length - shown.length
+          } more (use --verbose to see)`
+        )
+      );
+    }
+  }
+
+  console.log('');
+}
+
 function printSection(
   title: string,
   severity: Severity,
@@ -143,12 +613,12 @@ function printIssueGroup(issues: Issue[], verbose: boolean): void {
     console.log('');
 
     console.log(
-      `  ${color(`[${icon}]`)} ${catIcon} ${chalk.bold(issue.title)}`
+      `  ${color(`[${icon}]`)} ${catIcon} ${chalk.bold(issue.title)} ` +
+        chalk.gray(issue.rule)
     );
 
     if (issue.file) {
-      const location = issue.line ? `${issue.file}:${issue.line}` : issue.file;
-      console.log(`      ${chalk.gray(location)}`);
+      console.log(`      ${chalk.gray(formatLocation(issue))}`);
     }
 
     console.log(`      ${issue.message}`);
@@ -160,5 +630,31 @@ function printIssueGroup(issues: Issue[], verbose: boolean): void {
     if (verbose && issue.impact) {
       console.log(`      ${chalk.green('Impact:')} ${issue.impact}`);
     }
+
+    if (issue.aiFix) {
+      printAIFix(issue.aiFix);
+    }
+  }
+}
+
+/**
+ * The file headers are left out; the issue location is printed above.
+ */
+function printAIFix(fix: AIFix): void {
+  console.log(`      ${chalk.magenta('AI fix:')} ${fix.explanation}`);
+
+  const lines = (fix.patch || '')
+    .split('\n')
+    .filter((line) => line && !/^(---|\+\+\+) /.test(line));
+
+  for (const line of lines) {
+    const color = line.startsWith('+')
+      ? chalk.green
+      : line.startsWith('-')
+      ? chalk.red
+      : line.startsWith('@@')
+      ? chalk.cyan
+      : chalk.gray;
+    console.log(`        ${color(line)}`);
   }
 }
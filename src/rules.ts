@@ -0,0 +1,258 @@
+import { RuleMeta } from './types';
+
+/**
+ * Catalog of every built-in check. Rule IDs are stable and are what config
+ * files and suppression comments refer to, so never rename one.
+ */
+export const RULES: RuleMeta[] = [
+  // Dependencies
+  {
+    id: 'dependency/heavy',
+    category: 'dependency',
+    title: 'Heavy dependency',
+    description: 'Dependency known to add significant bundle size',
+  },
+  {
+    id: 'dependency/lodash-full-import',
+    category: 'dependency',
+    title: 'Full lodash import detected',
+    description: 'Entire lodash imported instead of individual functions',
+  },
+  {
+    id: 'dependency/duplicate-http',
+    category: 'dependency',
+    title: 'Duplicate HTTP libraries',
+    description: 'More than one HTTP client library installed',
+  },
+  {
+    id: 'dependency/duplicate-date',
+    category: 'dependency',
+    title: 'Duplicate date libraries',
+    description: 'More than one date library installed',
+  },
+  {
+    id: 'dependency/duplicate-versions',
+    category: 'dependency',
+    title: 'Multiple versions of a package',
+    description: 'Lockfile installs the same package at several versions',
+  },
+  {
+    id: 'dependency/transitive-heavy',
+    category: 'dependency',
+    title: 'Transitive heavy dependency',
+    description: 'Heavy package pulled in by another dependency',
+  },
+  {
+    id: 'dependency/unused',
+    category: 'dependency',
+    title: 'Unused dependency',
+    description: 'Production dependency that is never imported',
+  },
+  {
+    id: 'dependency/undeclared',
+    category: 'dependency',
+    title: 'Undeclared dependency',
+    description: 'Package imported but not listed in package.json',
+  },
+  {
+    id: 'dependency/misplaced',
+    category: 'dependency',
+    title: 'Dev dependency used at runtime',
+    description: 'Package in devDependencies imported by app code',
+  },
+  {
+    id: 'dependency/count',
+    category: 'dependency',
+    title: 'High dependency count',
+    description: 'Too many production dependencies',
+  },
+
+  // Assets
+  {
+    id: 'asset/image-size',
+    category: 'asset',
+    title: 'Large image',
+    description: 'Image file exceeds the size thresholds',
+  },
+  {
+    id: 'asset/webp',
+    category: 'asset',
+    title: 'Consider WebP format',
+    description: 'PNG/JPEG image without a WebP alternative',
+  },
+  {
+    id: 'asset/resolution-variants',
+    category: 'asset',
+    title: 'Missing resolution variants',
+    description: 'Image without @2x or @3x variants',
+  },
+  {
+    id: 'asset/image-dimensions',
+    category: 'asset',
+    title: 'Oversized image dimensions',
+    description: 'Image has more pixels than a phone screen can show',
+  },
+  {
+    id: 'asset/png-no-alpha',
+    category: 'asset',
+    title: 'PNG without transparency',
+    description: 'Opaque PNG that would be smaller as JPEG or WebP',
+  },
+  {
+    id: 'asset/variant-dimensions',
+    category: 'asset',
+    title: 'Resolution variant with wrong size',
+    description: '@2x/@3x image whose size does not match its scale',
+  },
+  {
+    id: 'asset/svg-embedded-raster',
+    category: 'asset',
+    title: 'Raster image embedded in SVG',
+    description: 'SVG containing a base64 PNG/JPEG/GIF/WebP',
+  },
+  {
+    id: 'asset/svg-metadata',
+    category: 'asset',
+    title: 'SVG editor metadata',
+    description: 'Inkscape/Sketch/Illustrator data or comments left in SVG',
+  },
+  {
+    id: 'asset/svg-complexity',
+    category: 'asset',
+    title: 'Complex SVG',
+    description: 'SVG with too many elements or path commands',
+  },
+  {
+    id: 'asset/svg-precision',
+    category: 'asset',
+    title: 'Unminified SVG numbers',
+    description: 'SVG coordinates written with excessive precision',
+  },
+  {
+    id: 'asset/svg-rasterize',
+    category: 'asset',
+    title: 'Large SVG rendered with react-native-svg',
+    description: 'SVG big enough that a PNG renders faster in React Native',
+  },
+  {
+    id: 'asset/font-size',
+    category: 'asset',
+    title: 'Large font file',
+    description: 'Font file exceeds the size threshold',
+  },
+  {
+    id: 'asset/font-format',
+    category: 'asset',
+    title: 'Unoptimized font format',
+    description: 'TTF/OTF font where WOFF2 would be smaller',
+  },
+  {
+    id: 'asset/unreferenced',
+    category: 'asset',
+    title: 'Unreferenced asset',
+    description: 'Image or font that no source file refers to',
+  },
+  {
+    id: 'asset/duplicate',
+    category: 'asset',
+    title: 'Duplicate asset',
+    description: 'Identical image or font committed under several paths',
+  },
+  {
+    id: 'asset/near-duplicate',
+    category: 'asset',
+    title: 'Possible duplicate image',
+    description: 'Same-named images with equal dimensions but other encodings',
+  },
+  {
+    id: 'asset/total-size',
+    category: 'asset',
+    title: 'High total assets size',
+    description: 'Combined size of all images and fonts is too high',
+  },
+
+  // Code
+  {
+    id: 'code/large-file',
+    category: 'code',
+    title: 'Large file',
+    description: 'Source file exceeds the line threshold',
+  },
+  {
+    id: 'code/console',
+    category: 'code',
+    title: 'Console statements',
+    description: 'console.* calls left in source',
+  },
+  {
+    id: 'code/inline-functions',
+    category: 'code',
+    title: 'Inline functions in render',
+    description: 'Inline arrow functions passed as event handlers',
+  },
+  {
+    id: 'code/inline-styles',
+    category: 'code',
+    title: 'Multiple inline styles',
+    description: 'Inline style objects recreated on every render',
+  },
+  {
+    id: 'code/use-effect-no-deps',
+    category: 'code',
+    title: 'useEffect without dependencies',
+    description: 'useEffect called without a dependency array',
+  },
+  {
+    id: 'code/memoization',
+    category: 'code',
+    title: 'Consider memoization',
+    description: 'Component with heavy rendering not wrapped in React.memo',
+  },
+  {
+    id: 'code/sync-fs',
+    category: 'code',
+    title: 'Synchronous file operation',
+    description: 'Sync fs calls that block the event loop',
+  },
+  {
+    id: 'code/hardcoded-urls',
+    category: 'code',
+    title: 'Hardcoded URLs',
+    description: 'URLs hardcoded in source instead of config',
+  },
+  {
+    id: 'code/large-object',
+    category: 'code',
+    title: 'Large inline object',
+    description: 'Large object literal defined inline',
+  },
+  {
+    id: 'code/image-resize-mode',
+    category: 'code',
+    title: 'Image without resizeMode',
+    description: 'React Native Image without an explicit resizeMode',
+  },
+  {
+    id: 'code/scrollview-list',
+    category: 'code',
+    title: 'ScrollView with many items',
+    description: 'ScrollView used where a virtualized list fits better',
+  },
+];
+
+const pluginRules: RuleMeta[] = [];
+
+export function registerRules(rules: RuleMeta[]): void {
+  pluginRules.push(...rules);
+}
+
+/**
+ * Built-in rules followed by rules registered by plugins.
+ */
+export function getRules(): RuleMeta[] {
+  return [...RULES, ...pluginRules];
+}
+
+export function getRule(id: string): RuleMeta | undefined {
+  return getRules().find((rule) => rule.id === id);
+}
@@ -1,25 +1,69 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { Issue } from '../types';
+import * as crypto from 'crypto';
+import { Issue, ScanConfig, Thresholds } from '../types';
 import {
-  IMAGE_SIZE_WARNING,
-  IMAGE_SIZE_CRITICAL,
-  FONT_SIZE_WARNING,
-  TOTAL_ASSETS_WARNING,
-  WEBP_SUGGESTION_THRESHOLD,
-  RESOLUTION_VARIANT_THRESHOLD,
   IMAGE_EXTENSIONS,
   FONT_EXTENSIONS,
-  IGNORE_PATTERNS,
+  ASSET_GLOB,
+  NATIVE_ASSET_PATTERNS,
+  SVG_MAX_DECIMALS,
+  SVG_PRECISE_NUMBER_THRESHOLD,
 } from '../constants';
+import { formatSize } from './footprint';
+import { ImageInfo, readImageInfo } from './images';
+import {
+  AssetReferences,
+  collectAssetReferences,
+  isAssetReferenced,
+  stripScale,
+} from './references';
+import { SvgAnalysis, analyzeSVG } from './svg';
 
-export async function scanAssets(projectPath: string): Promise<Issue[]> {
+/**
+ * Scans every asset, or only `changedFiles` (paths relative to the project)
+ * when given. References and duplicates are still looked up across the
+ * whole project, and the project-wide total size is skipped. Callers that
+ * already hold the source references (watch mode) can pass them in.
+ */
+export async function scanAssets(
+  projectPath: string,
+  config: ScanConfig,
+  changedFiles?: Set<string>,
+  knownReferences?: AssetReferences | null
+): Promise<Issue[]> {
   const issues: Issue[] = [];
   const { glob } = await import('glob');
+  const inScope = (file: string): boolean =>
+    !changedFiles || changedFiles.has(file);
+
+  const references =
+    knownReferences === undefined
+      ? await collectAssetReferences(projectPath, config)
+      : knownReferences;
 
-  await scanImages(projectPath, glob, issues);
-  await scanFonts(projectPath, glob, issues);
-  await checkTotalAssetsSize(projectPath, glob, issues);
+  await scanImages(projectPath, glob, config, inScope, issues);
+  await scanSVGs(projectPath, glob, config, references, inScope, issues);
+  await scanFonts(projectPath, glob, config, inScope, issues);
+  if (!changedFiles) {
+    await checkTotalAssetsSize(projectPath, glob, config, issues);
+  }
+  await checkUnreferencedAssets(
+    projectPath,
+    glob,
+    config,
+    references,
+    inScope,
+    issues
+  );
+  await checkDuplicateAssets(
+    projectPath,
+    glob,
+    config,
+    references,
+    inScope,
+    issues
+  );
 
   return issues;
 }
@@ -27,21 +71,32 @@ export async function scanAssets(projectPath: string): Promise<Issue[]> {
 async function scanImages(
   projectPath: string,
   glob: typeof import('glob').glob,
+  config: ScanConfig,
+  inScope: (file: string) => boolean,
   issues: Issue[]
 ): Promise<void> {
+  const { thresholds } = config;
+
   for (const ext of IMAGE_EXTENSIONS) {
     const files = await glob(`**/*${ext}`, {
       cwd: projectPath,
-      ignore: IGNORE_PATTERNS,
+      ignore: config.ignorePatterns,
     });
 
-    for (const file of files) {
+    for (const file of files.filter(inScope)) {
       const filePath = path.join(projectPath, file);
       try {
         const stats = fs.statSync(filePath);
-        checkImageSize(file, stats.size, issues);
-        checkWebPAlternative(file, filePath, stats.size, issues);
-        checkResolutionVariants(file, filePath, stats.size, issues);
+        checkImageSize(file, stats.size, thresholds, issues);
+        checkWebPAlternative(file, filePath, stats.size, thresholds, issues);
+        checkResolutionVariants(file, filePath, stats.size, thresholds, issues);
+
+        const info = readImageInfo(filePath);
+        if (info) {
+          checkImageDimensions(file, info, thresholds, issues);
+          checkPNGAlpha(file, info, stats.size, thresholds, issues);
+          checkVariantDimensions(file, filePath, info, issues);
+        }
       } catch {
         // Skip unreadable files
       }
@@ -49,23 +104,30 @@ async function scanImages(
   }
 }
 
-function checkImageSize(file: string, size: number, issues: Issue[]): void {
-  if (size > IMAGE_SIZE_CRITICAL) {
+function checkImageSize(
+  file: string,
+  size: number,
+  thresholds: Thresholds,
+  issues: Issue[]
+): void {
+  if (size > thresholds.imageSizeCritical) {
     issues.push({
       severity: 'critical',
       category: 'asset',
+      rule: 'asset/image-size',
       title: 'Very large image',
       file,
       message: `Image is ${formatSize(
         size
       )} - this will significantly impact load time`,
       suggestion: 'Compress to under 200KB, consider WebP format',
-      impact: `Could save ~${formatSize(size - IMAGE_SIZE_WARNING)}`,
+      impact: `Could save ~${formatSize(size - thresholds.imageSizeWarning)}`,
     });
-  } else if (size > IMAGE_SIZE_WARNING) {
+  } else if (size > thresholds.imageSizeWarning) {
     issues.push({
       severity: 'warning',
       category: 'asset',
+      rule: 'asset/image-size',
       title: 'Large image',
       file,
       message: `Image is ${formatSize(size)}`,
@@ -78,18 +140,20 @@ function checkWebPAlternative(
   file: string,
   filePath: string,
   size: number,
+  thresholds: Thresholds,
   issues: Issue[]
 ): void {
   const ext = path.extname(file).toLowerCase();
   const isConvertible = ext === '.png' || ext === '.jpg' || ext === '.jpeg';
 
-  if (isConvertible && size > WEBP_SUGGESTION_THRESHOLD) {
+  if (isConvertible && size > thresholds.webpSuggestionThreshold) {
     const webpExists = fs.existsSync(filePath.replace(ext, '.webp'));
 
     if (!webpExists) {
       issues.push({
         severity: 'info',
         category: 'asset',
+        rule: 'asset/webp',
         title: 'Consider WebP format',
         file,
         message: `${ext.toUpperCase()} format used - WebP could be 25-35% smaller`,
@@ -103,6 +167,7 @@ function checkResolutionVariants(
   file: string,
   filePath: string,
   size: number,
+  thresholds: Thresholds,
   issues: Issue[]
 ): void {
   const ext = path.extname(file).toLowerCase();
@@ -116,10 +181,11 @@ function checkResolutionVariants(
   const has2x = fs.existsSync(path.join(dir, `${basename}@2x${ext}`));
   const has3x = fs.existsSync(path.join(dir, `${basename}@3x${ext}`));
 
-  if (!has2x && !has3x && size > RESOLUTION_VARIANT_THRESHOLD) {
+  if (!has2x && !has3x && size > thresholds.resolutionVariantThreshold) {
     issues.push({
       severity: 'info',
       category: 'asset',
+      rule: 'asset/resolution-variants',
       title: 'Missing resolution variants',
       file,
       message: 'No @2x or @3x variants found',
@@ -129,21 +195,294 @@ function checkResolutionVariants(
   }
 }
 
+function checkImageDimensions(
+  file: string,
+  info: ImageInfo,
+  thresholds: Thresholds,
+  issues: Issue[]
+): void {
+  const longestSide = Math.max(info.width, info.height);
+  if (longestSide <= thresholds.imageMaxDimension) return;
+
+  issues.push({
+    severity: 'warning',
+    category: 'asset',
+    rule: 'asset/image-dimensions',
+    title: 'Oversized image dimensions',
+    file,
+    message: `${describeImage(info)} - larger than any phone screen needs`,
+    suggestion: `Resize to the displayed size times the screen scale (at most ${thresholds.imageMaxDimension}px)`,
+    impact: 'Decoded images use width x height x 4 bytes of memory',
+  });
+}
+
+function checkPNGAlpha(
+  file: string,
+  info: ImageInfo,
+  size: number,
+  thresholds: Thresholds,
+  issues: Issue[]
+): void {
+  // Palette PNGs are already compact, APNGs have no JPEG equivalent
+  const isTrueColor = info.format === 'png' && info.bitDepth >= 8;
+
+  if (
+    !isTrueColor ||
+    info.hasAlpha ||
+    info.isAnimated ||
+    size <= thresholds.webpSuggestionThreshold
+  ) {
+    return;
+  }
+
+  issues.push({
+    severity: 'info',
+    category: 'asset',
+    rule: 'asset/png-no-alpha',
+    title: 'PNG without transparency',
+    file,
+    message: `${describeImage(info)} has no alpha channel`,
+    suggestion: 'Use JPEG or WebP, which compress opaque images far better',
+  });
+}
+
+/**
+ * An `@2x`/`@3x` variant must be exactly 2x/3x the size of its base image,
+ * otherwise React Native scales it and the density gain is lost.
+ */
+function checkVariantDimensions(
+  file: string,
+  filePath: string,
+  info: ImageInfo,
+  issues: Issue[]
+): void {
+  const ext = path.extname(file);
+  const match = path.basename(file, ext).match(/^(.+)@([23])x$/);
+  if (!match) return;
+
+  const basePath = path.join(path.dirname(filePath), `${match[1]}${ext}`);
+  if (!fs.existsSync(basePath)) return;
+
+  const base = readImageInfo(basePath);
+  if (!base) return;
+
+  const scale = Number(match[2]);
+  const expectedWidth = base.width * scale;
+  const expectedHeight = base.height * scale;
+
+  // Allow rounding when the base was exported at a fractional size
+  if (
+    Math.abs(info.width - expectedWidth) < scale &&
+    Math.abs(info.height - expectedHeight) < scale
+  ) {
+    return;
+  }
+
+  issues.push({
+    severity: 'warning',
+    category: 'asset',
+    rule: 'asset/variant-dimensions',
+    title: 'Resolution variant with wrong size',
+    file,
+    message:
+      `${info.width}x${info.height} but the base image is ` +
+      `${base.width}x${base.height} (expected ${expectedWidth}x${expectedHeight})`,
+    suggestion: `Export @${scale}x variants at exactly ${scale} times the base size`,
+  });
+}
+
+function describeImage(info: ImageInfo): string {
+  const animated = info.isAnimated ? ' animated' : '';
+  return `${info.width}x${info.height}${animated} ${info.format.toUpperCase()}`;
+}
+
+async function scanSVGs(
+  projectPath: string,
+  glob: typeof import('glob').glob,
+  config: ScanConfig,
+  references: AssetReferences | null,
+  inScope: (file: string) => boolean,
+  issues: Issue[]
+): Promise<void> {
+  const files = await glob('**/*.svg', {
+    cwd: projectPath,
+    ignore: config.ignorePatterns,
+  });
+  const usesNativeSvg = hasDependency(projectPath, 'react-native-svg');
+
+  for (const file of files.filter(inScope)) {
+    try {
+      const content = fs.readFileSync(path.join(projectPath, file), 'utf-8');
+      const svg = analyzeSVG(content);
+
+      checkSVGRasters(file, svg, issues);
+      checkSVGMetadata(file, svg, issues);
+      checkSVGComplexity(file, svg, config.thresholds, issues);
+      checkSVGPrecision(file, svg, issues);
+
+      // Only SVGs the code loads are rendered through react-native-svg
+      if (usesNativeSvg && references && isAssetReferenced(file, references)) {
+        checkSVGRasterize(file, svg, config.thresholds, issues);
+      }
+    } catch {
+      // Skip unreadable files
+    }
+  }
+}
+
+function checkSVGRasters(
+  file: string,
+  svg: SvgAnalysis,
+  issues: Issue[]
+): void {
+  if (svg.embeddedRasters === 0) return;
+
+  issues.push({
+    severity: 'warning',
+    category: 'asset',
+    rule: 'asset/svg-embedded-raster',
+    title: 'Raster image embedded in SVG',
+    file,
+    message: `${svg.embeddedRasters} base64 image(s) embedded (${formatSize(
+      svg.embeddedRasterBytes
+    )} decoded, a third larger as base64)`,
+    suggestion:
+      'Ship the bitmap as a separate PNG/WebP, or redraw it as vector shapes',
+  });
+}
+
+function checkSVGMetadata(
+  file: string,
+  svg: SvgAnalysis,
+  issues: Issue[]
+): void {
+  if (svg.editors.length === 0 && svg.comments === 0) return;
+
+  const found = [
+    ...svg.editors.map((editor) => `${editor} metadata`),
+    ...(svg.comments > 0 ? [`${svg.comments} comment(s)`] : []),
+  ];
+
+  issues.push({
+    severity: 'info',
+    category: 'asset',
+    rule: 'asset/svg-metadata',
+    title: 'SVG editor metadata',
+    file,
+    message: `Contains ${found.join(', ')}`,
+    suggestion: 'Run the file through SVGO or export with "minify" enabled',
+    impact: describeOptimizedSize(svg),
+  });
+}
+
+function checkSVGComplexity(
+  file: string,
+  svg: SvgAnalysis,
+  thresholds: Thresholds,
+  issues: Issue[]
+): void {
+  if (
+    svg.nodes <= thresholds.svgMaxNodes &&
+    svg.pathCommands <= thresholds.svgMaxPathCommands
+  ) {
+    return;
+  }
+
+  issues.push({
+    severity: 'warning',
+    category: 'asset',
+    rule: 'asset/svg-complexity',
+    title: 'Complex SVG',
+    file,
+    message: `${svg.nodes} elements, ${svg.paths} paths with ${svg.pathCommands} drawing commands`,
+    suggestion:
+      'Simplify or merge paths, or use a raster image for illustrations',
+    impact: 'Every element is parsed and drawn on each render',
+  });
+}
+
+function checkSVGPrecision(
+  file: string,
+  svg: SvgAnalysis,
+  issues: Issue[]
+): void {
+  if (svg.preciseNumbers < SVG_PRECISE_NUMBER_THRESHOLD) return;
+
+  issues.push({
+    severity: 'info',
+    category: 'asset',
+    rule: 'asset/svg-precision',
+    title: 'Unminified SVG numbers',
+    file,
+    message: `${svg.preciseNumbers} numbers use more than ${SVG_MAX_DECIMALS} decimals`,
+    suggestion: `Round coordinates to ${SVG_MAX_DECIMALS} decimals or fewer (SVGO floatPrecision)`,
+    impact: describeOptimizedSize(svg),
+  });
+}
+
+/**
+ * react-native-svg builds a native view per element on every render, so
+ * large static SVGs are cheaper as PNGs.
+ */
+function checkSVGRasterize(
+  file: string,
+  svg: SvgAnalysis,
+  thresholds: Thresholds,
+  issues: Issue[]
+): void {
+  if (svg.optimizedSize <= thresholds.svgRasterizeSize) return;
+
+  issues.push({
+    severity: 'warning',
+    category: 'asset',
+    rule: 'asset/svg-rasterize',
+    title: 'Large SVG rendered with react-native-svg',
+    file,
+    message: `${formatSize(svg.optimizedSize)} after optimization with ${
+      svg.nodes
+    } elements`,
+    suggestion:
+      'Export a PNG/WebP with @2x/@3x variants unless the image must scale or animate',
+    impact: 'Slower first render and higher memory use than a bitmap',
+  });
+}
+
+function describeOptimizedSize(svg: SvgAnalysis): string {
+  return `Estimated ${formatSize(
+    svg.optimizedSize
+  )} after optimization (now ${formatSize(svg.size)})`;
+}
+
+function hasDependency(projectPath: string, name: string): boolean {
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(path.join(projectPath, 'package.json'), 'utf-8')
+    );
+    return Boolean(
+      packageJson.dependencies?.[name] || packageJson.devDependencies?.[name]
+    );
+  } catch {
+    return false;
+  }
+}
+
 async function scanFonts(
   projectPath: string,
   glob: typeof import('glob').glob,
+  config: ScanConfig,
+  inScope: (file: string) => boolean,
   issues: Issue[]
 ): Promise<void> {
   for (const ext of FONT_EXTENSIONS) {
     const files = await glob(`**/*${ext}`, {
       cwd: projectPath,
-      ignore: IGNORE_PATTERNS,
+      ignore: config.ignorePatterns,
     });
 
-    for (const file of files) {
+    for (const file of files.filter(inScope)) {
       try {
         const stats = fs.statSync(path.join(projectPath, file));
-        checkFontSize(file, stats.size, issues);
+        checkFontSize(file, stats.size, config.thresholds, issues);
         checkFontFormat(file, issues);
       } catch {
         // Skip unreadable files
@@ -152,11 +491,17 @@ async function scanFonts(
   }
 }
 
-function checkFontSize(file: string, size: number, issues: Issue[]): void {
-  if (size > FONT_SIZE_WARNING) {
+function checkFontSize(
+  file: string,
+  size: number,
+  thresholds: Thresholds,
+  issues: Issue[]
+): void {
+  if (size > thresholds.fontSizeWarning) {
     issues.push({
       severity: 'warning',
       category: 'asset',
+      rule: 'asset/font-size',
       title: 'Large font file',
       file,
       message: `Font is ${formatSize(size)}`,
@@ -171,6 +516,7 @@ function checkFontFormat(file: string, issues: Issue[]): void {
     issues.push({
       severity: 'info',
       category: 'asset',
+      rule: 'asset/font-format',
       title: 'Unoptimized font format',
       file,
       message: `${ext.toUpperCase()} format used`,
@@ -182,15 +528,13 @@ function checkFontFormat(file: string, issues: Issue[]): void {
 async function checkTotalAssetsSize(
   projectPath: string,
   glob: typeof import('glob').glob,
+  config: ScanConfig,
   issues: Issue[]
 ): Promise<void> {
-  const allAssets = await glob(
-    '**/*.{png,jpg,jpeg,gif,webp,svg,ttf,otf,woff,woff2}',
-    {
-      cwd: projectPath,
-      ignore: IGNORE_PATTERNS,
-    }
-  );
+  const allAssets = await glob(ASSET_GLOB, {
+    cwd: projectPath,
+    ignore: config.ignorePatterns,
+  });
 
   let totalSize = 0;
 
@@ -203,10 +547,11 @@ async function checkTotalAssetsSize(
     }
   }
 
-  if (totalSize > TOTAL_ASSETS_WARNING) {
+  if (totalSize > config.thresholds.totalAssetsWarning) {
     issues.push({
       severity: 'warning',
       category: 'asset',
+      rule: 'asset/total-size',
       title: 'High total assets size',
       message: `Total assets size is ${formatSize(totalSize)}`,
       suggestion: 'Consider lazy loading images or using a CDN',
@@ -215,9 +560,200 @@ async function checkTotalAssetsSize(
   }
 }
 
-function formatSize(bytes: number): string {
-  if (bytes < 1024) return `${bytes}B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+/**
+ * Reports assets no source file refers to. A base image and its `@2x`/`@3x`
+ * variants are reported together with their combined size, which the score
+ * breakdown sums up.
+ */
+async function checkUnreferencedAssets(
+  projectPath: string,
+  glob: typeof import('glob').glob,
+  config: ScanConfig,
+  references: AssetReferences | null,
+  inScope: (file: string) => boolean,
+  issues: Issue[]
+): Promise<void> {
+  if (!references) return;
+
+  const assets = await glob(ASSET_GLOB, {
+    cwd: projectPath,
+    ignore: [...config.ignorePatterns, ...NATIVE_ASSET_PATTERNS],
+  });
+
+  const groups = new Map<string, { files: string[]; size: number }>();
+
+  for (const file of assets) {
+    if (isAssetReferenced(file, references)) continue;
+
+    try {
+      const { size } = fs.statSync(path.join(projectPath, file));
+      const key = stripScale(file);
+      const group = groups.get(key) || { files: [], size: 0 };
+
+      group.files.push(file);
+      group.size += size;
+      groups.set(key, group);
+    } catch {
+      // Skip unreadable files
+    }
+  }
+
+  for (const [key, group] of [...groups].sort(([a], [b]) =>
+    a.localeCompare(b)
+  )) {
+    if (!group.files.some(inScope)) continue;
+
+    const variants =
+      group.files.length > 1 ? ` in ${group.files.length} files` : '';
+
+    issues.push({
+      severity: 'warning',
+      category: 'asset',
+      rule: 'asset/unreferenced',
+      title: 'Unreferenced asset',
+      file: group.files.sort()[0],
+      message: `Not referenced from any source file (${formatSize(
+        group.size
+      )}${variants})`,
+      suggestion: `Delete ${path.basename(
+        key
+      )} if it is not loaded dynamically`,
+      impact: `Removing saves ${formatSize(group.size)}`,
+      size: group.size,
+    });
+  }
+}
+
+/**
+ * Groups byte-identical assets by content hash, then images that look like
+ * re-encodings of each other: same file name and the same dimensions,
+ * alpha and animation, in another format or folder. Pixels are not
+ * compared since that would need an image decoder.
+ */
+async function checkDuplicateAssets(
+  projectPath: string,
+  glob: typeof import('glob').glob,
+  config: ScanConfig,
+  references: AssetReferences | null,
+  inScope: (file: string) => boolean,
+  issues: Issue[]
+): Promise<void> {
+  const assets = await glob(ASSET_GLOB, {
+    cwd: projectPath,
+    ignore: config.ignorePatterns,
+  });
+  const sizes = new Map<string, number>();
+  const byHash = new Map<string, string[]>();
+
+  for (const file of assets.sort()) {
+    try {
+      const content = fs.readFileSync(path.join(projectPath, file));
+      const hash = crypto.createHash('sha1').update(content).digest('hex');
+
+      sizes.set(file, content.length);
+      byHash.set(hash, [...(byHash.get(hash) || []), file]);
+    } catch {
+      // Skip unreadable files
+    }
+  }
+
+  const exactGroups = [...byHash.values()].filter((files) => files.length > 1);
+
+  for (const files of exactGroups.filter((group) => group.some(inScope))) {
+    const canonical = pickCanonicalAsset(files, references);
+    const wasted = sizes.get(canonical)! * (files.length - 1);
+
+    issues.push({
+      severity: 'warning',
+      category: 'asset',
+      rule: 'asset/duplicate',
+      title: 'Duplicate asset',
+      file: files.find((file) => file !== canonical),
+      message: `${files.length} identical files: ${files.join(', ')}`,
+      suggestion: `Keep ${canonical} and point the other references at it`,
+      impact: `Wastes ${formatSize(wasted)}`,
+    });
+  }
+
+  // Near-duplicates: one representative per exact group is enough
+  const byLook = new Map<string, string[]>();
+
+  for (const files of byHash.values()) {
+    const file = files[0];
+    const ext = path.extname(file).toLowerCase();
+    if (!IMAGE_EXTENSIONS.includes(ext)) continue;
+
+    let info: ImageInfo | null;
+    try {
+      info = readImageInfo(path.join(projectPath, file));
+    } catch {
+      continue;
+    }
+    if (!info) continue;
+
+    const name = path
+      .basename(stripScale(file), path.extname(file))
+      .toLowerCase();
+    const key = [
+      name,
+      info.width,
+      info.height,
+      info.hasAlpha,
+      info.isAnimated,
+    ].join(':');
+
+    byLook.set(key, [...(byLook.get(key) || []), file]);
+  }
+
+  for (const files of byLook.values()) {
+    if (files.length < 2 || !files.some(inScope)) continue;
+
+    // The smallest encoding is the one worth keeping
+    const canonical = files.reduce((best, file) =>
+      sizes.get(file)! < sizes.get(best)! ? file : best
+    );
+    const wasted = files
+      .filter((file) => file !== canonical)
+      .reduce((total, file) => total + sizes.get(file)!, 0);
+    const info = readImageInfo(path.join(projectPath, canonical))!;
+
+    issues.push({
+      severity: 'info',
+      category: 'asset',
+      rule: 'asset/near-duplicate',
+      title: 'Possible duplicate image',
+      file: files.find((file) => file !== canonical),
+      message: `${files.length} files named alike at ${info.width}x${
+        info.height
+      } with different contents: ${files.join(', ')}`,
+      suggestion: `If they show the same picture, keep ${canonical} (the smallest)`,
+      impact: `Could save ${formatSize(wasted)}`,
+    });
+  }
+}
+
+/**
+ * Prefers the file the sources load by path, then one referenced by name,
+ * so the suggestion never deletes what the code uses. Among equals it takes
+ * the file closest to the project root, which is most likely a shared
+ * location, then the shortest path.
+ */
+function pickCanonicalAsset(
+  files: string[],
+  references: AssetReferences | null
+): string {
+  const rank = (file: string): number => {
+    if (!references) return 0;
+    if (references.paths.has(stripScale(file))) return 0;
+    return isAssetReferenced(file, references) ? 1 : 2;
+  };
+  const depth = (file: string): number => file.split('/').length;
 
-  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+  return [...files].sort(
+    (a, b) =>
+      rank(a) - rank(b) ||
+      depth(a) - depth(b) ||
+      a.length - b.length ||
+      a.localeCompare(b)
+  )[0];
 }
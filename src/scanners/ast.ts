@@ -0,0 +1,202 @@
+import * as ts from 'typescript';
+import { CONSOLE_METHODS } from '../constants';
+
+export interface ParsedFile {
+  file: string;
+  sourceFile: ts.SourceFile;
+  nodes: ts.Node[];
+}
+
+export interface ModuleReference {
+  specifier: string;
+  /** The string literal naming the module */
+  node: ts.StringLiteralLike;
+  /** `import type` / `export type`, erased at compile time */
+  isTypeOnly: boolean;
+}
+
+/**
+ * Parses a source file once and flattens its syntax tree so every check can
+ * filter the same node list. Comments and string contents never become
+ * nodes, so checks built on this cannot match inside them.
+ */
+export function parseFile(file: string, content: string): ParsedFile {
+  const sourceFile = ts.createSourceFile(
+    file,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(file)
+  );
+  const nodes: ts.Node[] = [];
+
+  const visit = (node: ts.Node): void => {
+    nodes.push(node);
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(sourceFile, visit);
+
+  return { file, sourceFile, nodes };
+}
+
+/**
+ * True when the parser had to recover from syntax errors. Such files are
+ * still scanned, but their tree may not match the source closely enough to
+ * rewrite it.
+ */
+export function hasSyntaxErrors(parsed: ParsedFile): boolean {
+  // Internal to the compiler API, but filled by every parse
+  const { parseDiagnostics } = parsed.sourceFile as ts.SourceFile & {
+    parseDiagnostics?: ts.Diagnostic[];
+  };
+
+  return Boolean(parseDiagnostics && parseDiagnostics.length > 0);
+}
+
+export function getPosition(
+  parsed: ParsedFile,
+  node: ts.Node
+): { line: number; column: number } {
+  const { line, character } = parsed.sourceFile.getLineAndCharacterOfPosition(
+    node.getStart(parsed.sourceFile)
+  );
+
+  return { line: line + 1, column: character + 1 };
+}
+
+export function getLineSpan(parsed: ParsedFile, node: ts.Node): number {
+  const { sourceFile } = parsed;
+  const start = sourceFile.getLineAndCharacterOfPosition(
+    node.getStart(sourceFile)
+  ).line;
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line;
+
+  return end - start + 1;
+}
+
+/**
+ * Returns the callee name of a call: `useEffect` for both `useEffect(...)`
+ * and `React.useEffect(...)`.
+ */
+export function getCalleeName(node: ts.CallExpression): string | undefined {
+  const callee = node.expression;
+
+  if (ts.isIdentifier(callee)) return callee.text;
+  if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+
+  return undefined;
+}
+
+/**
+ * Matches `console.log(...)` and the other `CONSOLE_METHODS`.
+ */
+export function isConsoleCall(node: ts.Node): node is ts.CallExpression {
+  return (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    ts.isIdentifier(node.expression.expression) &&
+    node.expression.expression.text === 'console' &&
+    CONSOLE_METHODS.includes(node.expression.name.text)
+  );
+}
+
+export function getJsxTagName(
+  node: ts.JsxOpeningElement | ts.JsxSelfClosingElement
+): string {
+  return node.tagName.getText();
+}
+
+export function getJsxAttribute(
+  node: ts.JsxOpeningElement | ts.JsxSelfClosingElement,
+  name: string
+): ts.JsxAttribute | undefined {
+  return node.attributes.properties.find(
+    (prop): prop is ts.JsxAttribute =>
+      ts.isJsxAttribute(prop) && prop.name.getText() === name
+  );
+}
+
+export function hasJsxSpread(
+  node: ts.JsxOpeningElement | ts.JsxSelfClosingElement
+): boolean {
+  return node.attributes.properties.some(ts.isJsxSpreadAttribute);
+}
+
+export function importsModule(parsed: ParsedFile, moduleName: string): boolean {
+  return parsed.sourceFile.statements.some(
+    (statement) =>
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier) &&
+      statement.moduleSpecifier.text === moduleName
+  );
+}
+
+/**
+ * Every module a file loads: static imports and re-exports, `import x =
+ * require()`, `require()`, `require.resolve()` and dynamic `import()`.
+ * Only literal specifiers are returned.
+ */
+export function getModuleReferences(parsed: ParsedFile): ModuleReference[] {
+  const references: ModuleReference[] = [];
+
+  const add = (node: ts.Node | undefined, isTypeOnly = false): void => {
+    if (node && ts.isStringLiteralLike(node)) {
+      references.push({ specifier: node.text, node, isTypeOnly });
+    }
+  };
+
+  for (const node of parsed.nodes) {
+    if (ts.isImportDeclaration(node)) {
+      add(node.moduleSpecifier, node.importClause?.isTypeOnly);
+    } else if (ts.isExportDeclaration(node)) {
+      add(node.moduleSpecifier, node.isTypeOnly);
+    } else if (
+      ts.isImportEqualsDeclaration(node) &&
+      ts.isExternalModuleReference(node.moduleReference)
+    ) {
+      add(node.moduleReference.expression, node.isTypeOnly);
+    } else if (ts.isCallExpression(node) && isModuleCall(node)) {
+      add(node.arguments[0]);
+    }
+  }
+
+  return references;
+}
+
+export function findDescendants<T extends ts.Node>(
+  root: ts.Node,
+  predicate: (node: ts.Node) => node is T
+): T[] {
+  const found: T[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (predicate(node)) found.push(node);
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(root, visit);
+
+  return found;
+}
+
+// Helper functions
+
+function isModuleCall(node: ts.CallExpression): boolean {
+  const callee = node.expression;
+
+  return (
+    callee.kind === ts.SyntaxKind.ImportKeyword ||
+    (ts.isIdentifier(callee) && callee.text === 'require') ||
+    (ts.isPropertyAccessExpression(callee) &&
+      callee.getText() === 'require.resolve')
+  );
+}
+
+function getScriptKind(file: string): ts.ScriptKind {
+  if (file.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (file.endsWith('.ts') || file.endsWith('.mts') || file.endsWith('.cts')) {
+    return ts.ScriptKind.TS;
+  }
+
+  // Plain .js files in React Native projects routinely contain JSX
+  return ts.ScriptKind.JSX;
+}
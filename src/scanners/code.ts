@@ -1,65 +1,124 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { Issue } from '../types';
+import * as ts from 'typescript';
+import { Issue, ScanConfig, Thresholds } from '../types';
 import {
   CODE_EXTENSIONS,
-  CODE_IGNORE_PATTERNS,
-  LARGE_FILE_LINES,
-  CONSOLE_WARNING_THRESHOLD,
-  INLINE_FUNCTION_THRESHOLD,
-  INLINE_STYLE_THRESHOLD,
-  HEAVY_RENDER_MAP_THRESHOLD,
-  MEMO_LINE_THRESHOLD,
-  CONSOLE_LOG_PATTERN,
-  INLINE_FUNCTION_PATTERN,
-  INLINE_STYLE_PATTERN,
-  USE_EFFECT_NO_DEPS,
+  SYNC_FS_METHODS,
+  EFFECT_HOOKS,
+  INLINE_HANDLER_PATTERN,
   HARDCODED_URL_PATTERN,
-  LARGE_OBJECT_PATTERN,
-  MAP_CALL_PATTERN,
+  LIST_COMPONENTS,
+  SCROLLVIEW_CHILD_THRESHOLD,
 } from '../constants';
+import {
+  ParsedFile,
+  parseFile,
+  getPosition,
+  getLineSpan,
+  getCalleeName,
+  isConsoleCall,
+  getJsxTagName,
+  getJsxAttribute,
+  hasJsxSpread,
+  importsModule,
+  findDescendants,
+} from './ast';
+import { createSuppressionMatcher } from '../suppressions';
 
-export async function scanCode(projectPath: string): Promise<Issue[]> {
-  const issues: Issue[] = [];
+type SuppressionMatcher = (rule: string, line: number) => boolean;
+
+interface ComponentInfo {
+  name: string;
+  nameNode: ts.Node;
+  body: ts.Node;
+  memoized: boolean;
+}
+
+export interface CodeScan {
+  issues: Issue[];
+  /** Number of files and lines read, used to normalize the code score */
+  files: number;
+  lines: number;
+}
+
+/**
+ * Scans every source file, or only `changedFiles` (paths relative to the
+ * project) when given.
+ */
+export async function scanCode(
+  projectPath: string,
+  config: ScanConfig,
+  changedFiles?: Set<string>
+): Promise<CodeScan> {
+  const scan: CodeScan = { issues: [], files: 0, lines: 0 };
   const { glob } = await import('glob');
 
   const files = await glob(CODE_EXTENSIONS, {
     cwd: projectPath,
-    ignore: CODE_IGNORE_PATTERNS,
+    ignore: config.codeIgnorePatterns,
   });
 
   for (const file of files) {
+    if (changedFiles && !changedFiles.has(file)) continue;
+
     try {
       const content = fs.readFileSync(path.join(projectPath, file), 'utf-8');
-      const lines = content.split('\n');
-
-      checkFileSize(file, lines.length, issues);
-      checkConsoleStatements(file, content, lines, issues);
-
-      if (file.endsWith('.jsx') || file.endsWith('.tsx')) {
-        checkInlineFunctions(file, content, issues);
-        checkInlineStyles(file, content, issues);
-        checkUseEffectDeps(file, content, issues);
-        checkMemoization(file, content, lines.length, issues);
-      }
-
-      checkSyncFileOps(file, content, issues);
-      checkHardcodedUrls(file, content, issues);
-      checkLargeObjects(file, content, issues);
-      checkReactNativePatterns(file, content, issues);
+      scan.issues.push(...scanCodeFile(file, content, config));
+      scan.files++;
+      scan.lines += countLines(content);
     } catch {
       // Skip unreadable files
     }
   }
 
+  return scan;
+}
+
+export function countLines(content: string): number {
+  return content.split('\n').length;
+}
+
+/**
+ * Runs every code check on one file. Checks only look at the file itself,
+ * so results can be cached per file.
+ */
+export function scanCodeFile(
+  file: string,
+  content: string,
+  config: ScanConfig
+): Issue[] {
+  const issues: Issue[] = [];
+  const { thresholds } = config;
+  const lineCount = countLines(content);
+  const parsed = parseFile(file, content);
+  const isSuppressed = createSuppressionMatcher(content);
+
+  checkFileSize(file, lineCount, thresholds, issues);
+  checkConsoleStatements(parsed, thresholds, isSuppressed, issues);
+  checkInlineFunctions(parsed, thresholds, isSuppressed, issues);
+  checkInlineStyles(parsed, thresholds, isSuppressed, issues);
+  checkUseEffectDeps(parsed, issues);
+  checkMemoization(parsed, thresholds, issues);
+  checkSyncFileOps(parsed, issues);
+  checkHardcodedUrls(parsed, isSuppressed, issues);
+  checkLargeObjects(parsed, thresholds, issues);
+  checkReactNativePatterns(parsed, issues);
+
   return issues;
 }
 
-function checkFileSize(file: string, lineCount: number, issues: Issue[]): void {
-  if (lineCount > LARGE_FILE_LINES) {
+function checkFileSize(
+  file: string,
+  lineCount: number,
+  thresholds: Thresholds,
+  issues: Issue[]
+): void {
+  if (lineCount > thresholds.largeFileLines) {
     issues.push({
       severity: 'warning',
       category: 'code',
+      rule: 'code/large-file',
       title: 'Large file',
       file,
       message: `File has ${lineCount} lines`,
@@ -71,63 +130,77 @@ function checkFileSize(file: string, lineCount: number, issues: Issue[]): void {
 }
 
 function checkConsoleStatements(
-  file: string,
-  content: string,
-  lines: string[],
+  parsed: ParsedFile,
+  thresholds: Thresholds,
+  isSuppressed: SuppressionMatcher,
   issues: Issue[]
 ): void {
-  const matches = content.match(CONSOLE_LOG_PATTERN);
+  const calls = withoutSuppressed(
+    parsed,
+    'code/console',
+    parsed.nodes.filter(isConsoleCall),
+    isSuppressed
+  );
 
-  if (!matches) return;
+  if (calls.length === 0) return;
 
-  const consoleLines: number[] = [];
-  lines.forEach((line, index) => {
-    if (/console\.(log|warn|error|info|debug)\s*\(/.test(line)) {
-      consoleLines.push(index + 1);
-    }
-  });
+  const consoleLines = calls.map((call) => getPosition(parsed, call).line);
 
-  if (consoleLines.length > CONSOLE_WARNING_THRESHOLD) {
+  if (calls.length > thresholds.consoleWarningThreshold) {
     issues.push({
       severity: 'warning',
       category: 'code',
+      rule: 'code/console',
       title: 'Multiple console statements',
-      file,
-      line: consoleLines[0],
-      message: `${
-        matches.length
-      } console statements found (lines: ${consoleLines
+      file: parsed.file,
+      ...getPosition(parsed, calls[0]),
+      message: `${calls.length} console statements found (lines: ${consoleLines
         .slice(0, 5)
         .join(', ')}${consoleLines.length > 5 ? '...' : ''})`,
       suggestion: 'Remove console statements in production or use a logger',
       impact: 'Console statements impact performance and expose debug info',
     });
-  } else if (consoleLines.length > 0) {
+  } else {
     issues.push({
       severity: 'info',
       category: 'code',
+      rule: 'code/console',
       title: 'Console statement found',
-      file,
-      line: consoleLines[0],
-      message: `${matches.length} console statement(s) found`,
+      file: parsed.file,
+      ...getPosition(parsed, calls[0]),
+      message: `${calls.length} console statement(s) found`,
       suggestion: 'Consider removing before production',
     });
   }
 }
 
 function checkInlineFunctions(
-  file: string,
-  content: string,
+  parsed: ParsedFile,
+  thresholds: Thresholds,
+  isSuppressed: SuppressionMatcher,
   issues: Issue[]
 ): void {
-  const matches = content.match(INLINE_FUNCTION_PATTERN);
-  if (matches && matches.length > INLINE_FUNCTION_THRESHOLD) {
+  const handlers = withoutSuppressed(
+    parsed,
+    'code/inline-functions',
+    parsed.nodes.filter(
+      (node): node is ts.JsxAttribute =>
+        ts.isJsxAttribute(node) &&
+        INLINE_HANDLER_PATTERN.test(node.name.getText()) &&
+        isInlineFunction(node.initializer)
+    ),
+    isSuppressed
+  );
+
+  if (handlers.length > thresholds.inlineFunctionThreshold) {
     issues.push({
       severity: 'warning',
       category: 'code',
+      rule: 'code/inline-functions',
       title: 'Inline functions in render',
-      file,
-      message: `${matches.length} inline arrow functions in event handlers`,
+      file: parsed.file,
+      ...getPosition(parsed, handlers[0]),
+      message: `${handlers.length} inline functions in event handlers`,
       suggestion: 'Use useCallback to memoize handlers',
       impact: 'Inline functions cause unnecessary re-renders',
     });
@@ -135,37 +208,53 @@ function checkInlineFunctions(
 }
 
 function checkInlineStyles(
-  file: string,
-  content: string,
+  parsed: ParsedFile,
+  thresholds: Thresholds,
+  isSuppressed: SuppressionMatcher,
   issues: Issue[]
 ): void {
-  const matches = content.match(INLINE_STYLE_PATTERN);
-  if (matches && matches.length > INLINE_STYLE_THRESHOLD) {
+  const styles = withoutSuppressed(
+    parsed,
+    'code/inline-styles',
+    parsed.nodes.filter(
+      (node): node is ts.JsxAttribute =>
+        ts.isJsxAttribute(node) &&
+        node.name.getText() === 'style' &&
+        isInlineStyle(node.initializer)
+    ),
+    isSuppressed
+  );
+
+  if (styles.length > thresholds.inlineStyleThreshold) {
     issues.push({
       severity: 'info',
       category: 'code',
+      rule: 'code/inline-styles',
       title: 'Multiple inline styles',
-      file,
-      message: `${matches.length} inline style objects`,
+      file: parsed.file,
+      ...getPosition(parsed, styles[0]),
+      message: `${styles.length} inline style objects`,
       suggestion: 'Use StyleSheet.create() or move styles outside component',
       impact: 'Inline styles create new objects on each render',
     });
   }
 }
 
-function checkUseEffectDeps(
-  file: string,
-  content: string,
-  issues: Issue[]
-): void {
-  const matches = content.match(USE_EFFECT_NO_DEPS);
-  if (matches && matches.length > 0) {
+function checkUseEffectDeps(parsed: ParsedFile, issues: Issue[]): void {
+  for (const node of parsed.nodes) {
+    if (!ts.isCallExpression(node) || node.arguments.length !== 1) continue;
+
+    const hook = getCalleeName(node);
+    if (!hook || !EFFECT_HOOKS.includes(hook)) continue;
+
     issues.push({
       severity: 'warning',
       category: 'code',
+      rule: 'code/use-effect-no-deps',
       title: 'useEffect without dependencies',
-      file,
-      message: 'useEffect called without dependency array',
+      file: parsed.file,
+      ...getPosition(parsed, node),
+      message: `${hook} called without dependency array`,
       suggestion:
         'Add dependency array [] for mount-only effects, or [deps] for reactive effects',
       impact: 'Missing dependencies can cause infinite re-renders',
@@ -174,54 +263,66 @@ function checkUseEffectDeps(
 }
 
 function checkMemoization(
-  file: string,
-  content: string,
-  lineCount: number,
+  parsed: ParsedFile,
+  thresholds: Thresholds,
   issues: Issue[]
 ): void {
-  const isExportedComponent =
-    content.includes('export default function') ||
-    content.includes('export const');
+  const memoized = getMemoizedNames(parsed);
 
-  if (!isExportedComponent) return;
+  for (const component of getExportedComponents(parsed)) {
+    if (component.memoized || memoized.has(component.name)) continue;
 
-  const hasMemo = content.includes('React.memo') || content.includes('memo(');
-  const mapMatches = content.match(MAP_CALL_PATTERN) || [];
-  const hasHeavyRender =
-    mapMatches.length > HEAVY_RENDER_MAP_THRESHOLD ||
-    content.includes('FlatList');
+    const mapCalls = findDescendants(
+      component.body,
+      (node): node is ts.CallExpression =>
+        ts.isCallExpression(node) && getCalleeName(node) === 'map'
+    );
+    const rendersList = findDescendants(component.body, isJsxTag).some((tag) =>
+      LIST_COMPONENTS.includes(getJsxTagName(tag))
+    );
+    const hasHeavyRender =
+      mapCalls.length > thresholds.heavyRenderMapThreshold || rendersList;
 
-  if (!hasMemo && hasHeavyRender && lineCount > MEMO_LINE_THRESHOLD) {
-    issues.push({
-      severity: 'info',
-      category: 'code',
-      title: 'Consider memoization',
-      file,
-      message: 'Component with heavy rendering not memoized',
-      suggestion: 'Wrap with React.memo() to prevent unnecessary re-renders',
-    });
+    if (
+      hasHeavyRender &&
+      getLineSpan(parsed, component.body) > thresholds.memoLineThreshold
+    ) {
+      issues.push({
+        severity: 'info',
+        category: 'code',
+        rule: 'code/memoization',
+        title: 'Consider memoization',
+        file: parsed.file,
+        ...getPosition(parsed, component.nameNode),
+        message: `Component ${component.name} with heavy rendering not memoized`,
+        suggestion: 'Wrap with React.memo() to prevent unnecessary re-renders',
+      });
+    }
   }
 }
 
-function checkSyncFileOps(
-  file: string,
-  content: string,
-  issues: Issue[]
-): void {
-  const hasSyncOps =
-    content.includes('fs.readFileSync') ||
-    content.includes('fs.writeFileSync') ||
-    content.includes('fs.existsSync');
-
+function checkSyncFileOps(parsed: ParsedFile, issues: Issue[]): void {
   const isAllowed =
-    file.includes('cli') || file.includes('script') || file.includes('config');
+    parsed.file.includes('cli') ||
+    parsed.file.includes('script') ||
+    parsed.file.includes('config');
+
+  if (isAllowed) return;
 
-  if (hasSyncOps && !isAllowed) {
+  const syncCall = parsed.nodes.find(
+    (node): node is ts.CallExpression =>
+      ts.isCallExpression(node) &&
+      SYNC_FS_METHODS.includes(getCalleeName(node) || '')
+  );
+
+  if (syncCall) {
     issues.push({
       severity: 'warning',
       category: 'code',
+      rule: 'code/sync-fs',
       title: 'Synchronous file operation',
-      file,
+      file: parsed.file,
+      ...getPosition(parsed, syncCall),
       message: 'Sync file operations block the event loop',
       suggestion: 'Use async versions: fs.promises.readFile, etc.',
     });
@@ -229,89 +330,321 @@ function checkSyncFileOps(
 }
 
 function checkHardcodedUrls(
-  file: string,
-  content: string,
+  parsed: ParsedFile,
+  isSuppressed: SuppressionMatcher,
   issues: Issue[]
 ): void {
-  const matches = content.match(HARDCODED_URL_PATTERN);
-
-  if (!matches) return;
-
-  const nonTestUrls = matches.filter(
-    (url) => !url.includes('example.com') && !url.includes('placeholder')
+  const urls = withoutSuppressed(
+    parsed,
+    'code/hardcoded-urls',
+    parsed.nodes.filter(
+      (node): node is ts.StringLiteralLike =>
+        ts.isStringLiteralLike(node) &&
+        !isModuleSpecifier(node) &&
+        HARDCODED_URL_PATTERN.test(node.text) &&
+        !node.text.includes('example.com') &&
+        !node.text.includes('placeholder')
+    ),
+    isSuppressed
   );
 
-  if (nonTestUrls.length > 0) {
+  if (urls.length > 0) {
     issues.push({
       severity: 'info',
       category: 'code',
+      rule: 'code/hardcoded-urls',
       title: 'Hardcoded URLs',
-      file,
-      message: `${nonTestUrls.length} hardcoded URL(s) found`,
+      file: parsed.file,
+      ...getPosition(parsed, urls[0]),
+      message: `${urls.length} hardcoded URL(s) found`,
       suggestion: 'Move URLs to environment variables or config',
     });
   }
 }
 
 function checkLargeObjects(
-  file: string,
-  content: string,
+  parsed: ParsedFile,
+  thresholds: Thresholds,
   issues: Issue[]
 ): void {
-  const matches = content.match(LARGE_OBJECT_PATTERN);
-  if (matches && matches.length > 0) {
+  const reported: ts.Node[] = [];
+
+  for (const node of parsed.nodes) {
+    if (
+      !ts.isObjectLiteralExpression(node) &&
+      !ts.isArrayLiteralExpression(node)
+    ) {
+      continue;
+    }
+
+    const size = node.getEnd() - node.getStart(parsed.sourceFile);
+    const isNested = reported.some(
+      (outer) => node.pos >= outer.pos && node.end <= outer.end
+    );
+
+    if (
+      size < thresholds.largeObjectChars ||
+      isNested ||
+      isStyleSheetArgument(node) ||
+      containsFunctions(node)
+    ) {
+      continue;
+    }
+
+    reported.push(node);
     issues.push({
       severity: 'info',
       category: 'code',
+      rule: 'code/large-object',
       title: 'Large inline object',
-      file,
-      message: 'Large object literal defined inline',
+      file: parsed.file,
+      ...getPosition(parsed, node),
+      message: `Large ${
+        ts.isArrayLiteralExpression(node) ? 'array' : 'object'
+      } literal defined inline (${size} characters)`,
       suggestion: 'Move to separate file or lazy load',
     });
   }
 }
 
-function checkReactNativePatterns(
-  file: string,
-  content: string,
-  issues: Issue[]
-): void {
-  const isReactNative =
-    content.includes('react-native') || content.includes('React Native');
+function checkReactNativePatterns(parsed: ParsedFile, issues: Issue[]): void {
+  if (!importsModule(parsed, 'react-native')) return;
 
-  if (!isReactNative) return;
+  const tags = parsed.nodes.filter(isJsxTag);
 
   // Check for Image without resizeMode
-  if (
-    content.includes('<Image') &&
-    !content.includes('resizeMode') &&
-    content.includes('source={')
-  ) {
-    issues.push({
-      severity: 'info',
-      category: 'code',
-      title: 'Image without resizeMode',
-      file,
-      message: 'Image component without explicit resizeMode',
-      suggestion: 'Add resizeMode prop for better performance',
-    });
+  for (const tag of tags) {
+    if (
+      getJsxTagName(tag) === 'Image' &&
+      getJsxAttribute(tag, 'source') &&
+      !getJsxAttribute(tag, 'resizeMode') &&
+      !hasJsxSpread(tag)
+    ) {
+      issues.push({
+        severity: 'info',
+        category: 'code',
+        rule: 'code/image-resize-mode',
+        title: 'Image without resizeMode',
+        file: parsed.file,
+        ...getPosition(parsed, tag),
+        message: 'Image component without explicit resizeMode',
+        suggestion: 'Add resizeMode prop for better performance',
+      });
+    }
   }
 
   // Check for ScrollView misuse
-  const viewMatches = content.match(/<View/g) || [];
-  if (
-    content.includes('<ScrollView') &&
-    viewMatches.length > 10 &&
-    !content.includes('FlatList')
-  ) {
-    issues.push({
-      severity: 'warning',
-      category: 'code',
-      title: 'ScrollView with many items',
-      file,
-      message: 'ScrollView used for list rendering',
-      suggestion: 'Use FlatList or SectionList for better performance',
-      impact: 'ScrollView renders all children at once',
-    });
+  for (const node of parsed.nodes) {
+    if (
+      !ts.isJsxElement(node) ||
+      getJsxTagName(node.openingElement) !== 'ScrollView'
+    ) {
+      continue;
+    }
+
+    const childElements = node.children.filter(
+      (child) => ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child)
+    );
+    const mapsChildren = node.children.some(
+      (child) =>
+        ts.isJsxExpression(child) &&
+        child.expression !== undefined &&
+        ts.isCallExpression(child.expression) &&
+        getCalleeName(child.expression) === 'map'
+    );
+
+    if (childElements.length > SCROLLVIEW_CHILD_THRESHOLD || mapsChildren) {
+      issues.push({
+        severity: 'warning',
+        category: 'code',
+        rule: 'code/scrollview-list',
+        title: 'ScrollView with many items',
+        file: parsed.file,
+        ...getPosition(parsed, node),
+        message: mapsChildren
+          ? 'ScrollView renders a mapped list'
+          : `ScrollView renders ${childElements.length} children`,
+        suggestion: 'Use FlatList or SectionList for better performance',
+        impact: 'ScrollView renders all children at once',
+      });
+    }
   }
 }
+
+// Helper functions
+
+/**
+ * Drops occurrences silenced by a line directive, so checks that combine a
+ * file's occurrences into one issue only count, and point at, the visible
+ * ones. When every occurrence is silenced they are all kept: the combined
+ * issue then lands on a suppressed line and is counted as suppressed.
+ */
+function withoutSuppressed<T extends ts.Node>(
+  parsed: ParsedFile,
+  rule: string,
+  nodes: T[],
+  isSuppressed: SuppressionMatcher
+): T[] {
+  const visible = nodes.filter(
+    (node) => !isSuppressed(rule, getPosition(parsed, node).line)
+  );
+
+  return visible.length > 0 ? visible : nodes;
+}
+
+function isJsxTag(
+  node: ts.Node
+): node is ts.JsxOpeningElement | ts.JsxSelfClosingElement {
+  return ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node);
+}
+
+function isInlineFunction(
+  initializer: ts.JsxAttributeValue | undefined
+): boolean {
+  if (!initializer || !ts.isJsxExpression(initializer)) return false;
+
+  const expression = initializer.expression;
+  return (
+    expression !== undefined &&
+    (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression))
+  );
+}
+
+function isInlineStyle(initializer: ts.JsxAttributeValue | undefined): boolean {
+  if (!initializer || !ts.isJsxExpression(initializer)) return false;
+
+  const expression = initializer.expression;
+  if (!expression) return false;
+
+  if (ts.isObjectLiteralExpression(expression)) return true;
+
+  return (
+    ts.isArrayLiteralExpression(expression) &&
+    expression.elements.some(ts.isObjectLiteralExpression)
+  );
+}
+
+function isModuleSpecifier(node: ts.Node): boolean {
+  const parent = node.parent;
+
+  return (
+    ts.isImportDeclaration(parent) ||
+    ts.isExportDeclaration(parent) ||
+    (ts.isCallExpression(parent) &&
+      (parent.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        getCalleeName(parent) === 'require'))
+  );
+}
+
+function isStyleSheetArgument(node: ts.Node): boolean {
+  const parent = node.parent;
+
+  return (
+    ts.isCallExpression(parent) &&
+    ts.isPropertyAccessExpression(parent.expression) &&
+    parent.expression.getText() === 'StyleSheet.create'
+  );
+}
+
+function containsFunctions(node: ts.Node): boolean {
+  return (
+    findDescendants(
+      node,
+      (child): child is ts.Node =>
+        ts.isArrowFunction(child) ||
+        ts.isFunctionExpression(child) ||
+        ts.isMethodDeclaration(child)
+    ).length > 0
+  );
+}
+
+function isMemoCall(node: ts.Node): node is ts.CallExpression {
+  return ts.isCallExpression(node) && getCalleeName(node) === 'memo';
+}
+
+/**
+ * Names wrapped in memo elsewhere in the file, e.g.
+ * `export default React.memo(ProductList)`.
+ */
+function getMemoizedNames(parsed: ParsedFile): Set<string> {
+  const names = new Set<string>();
+
+  for (const node of parsed.nodes) {
+    if (isMemoCall(node)) {
+      const [argument] = node.arguments;
+      if (argument && ts.isIdentifier(argument)) {
+        names.add(argument.text);
+      }
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Finds exported function components: `export function Foo`,
+ * `export default function Foo` and `export const Foo = (...) => ...`.
+ */
+function getExportedComponents(parsed: ParsedFile): ComponentInfo[] {
+  const components: ComponentInfo[] = [];
+
+  for (const statement of parsed.sourceFile.statements) {
+    if (!isExported(statement)) continue;
+
+    if (
+      ts.isFunctionDeclaration(statement) &&
+      statement.name &&
+      statement.body &&
+      isComponentName(statement.name.text)
+    ) {
+      components.push({
+        name: statement.name.text,
+        nameNode: statement.name,
+        body: statement.body,
+        memoized: false,
+      });
+    }
+
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (
+          !ts.isIdentifier(declaration.name) ||
+          !declaration.initializer ||
+          !isComponentName(declaration.name.text)
+        ) {
+          continue;
+        }
+
+        const memoized = isMemoCall(declaration.initializer);
+        const fn = memoized
+          ? (declaration.initializer as ts.CallExpression).arguments[0]
+          : declaration.initializer;
+
+        if (fn && (ts.isArrowFunction(fn) || ts.isFunctionExpression(fn))) {
+          components.push({
+            name: declaration.name.text,
+            nameNode: declaration.name,
+            body: fn.body,
+            memoized,
+          });
+        }
+      }
+    }
+  }
+
+  return components;
+}
+
+function isExported(statement: ts.Statement): boolean {
+  const modifiers = ts.canHaveModifiers(statement)
+    ? ts.getModifiers(statement)
+    : undefined;
+
+  return Boolean(
+    modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)
+  );
+}
+
+function isComponentName(name: string): boolean {
+  return /^[A-Z]/.test(name);
+}
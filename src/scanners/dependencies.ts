@@ -1,38 +1,196 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { Issue } from '../types';
-import { HEAVY_DEPS, CRITICAL_DEPS, HIGH_DEPENDENCY_COUNT } from '../constants';
+import { Issue, PackageJson, ScanConfig, Thresholds } from '../types';
+import {
+  HEAVY_DEPS,
+  CRITICAL_DEPS,
+  SINGLETON_PACKAGES,
+  FRAMEWORK_PACKAGES,
+  IMPLICIT_DEPENDENCIES,
+} from '../constants';
+import { ImportGraph, buildImportGraph, toPackageName } from './imports';
+import {
+  PackageFootprint,
+  findInstalledPackage,
+  formatSize,
+  measurePackage,
+} from './footprint';
+import {
+  LockedPackage,
+  LockfileGraph,
+  readLockfile,
+  traceDependencies,
+} from './lockfile';
 
-export async function scanDependencies(projectPath: string): Promise<Issue[]> {
+/**
+ * Checks the dependencies of a project. `rootPath` is the workspace root
+ * when scanning a workspace package, where the shared lockfile lives.
+ */
+export async function scanDependencies(
+  projectPath: string,
+  config: ScanConfig,
+  rootPath = projectPath
+): Promise<Issue[]> {
+  const graph = await buildImportGraph(projectPath, config);
+
+  return [
+    ...(await scanDeclaredDependencies(projectPath, config, rootPath)),
+    ...checkDependencyUsage(projectPath, graph, rootPath),
+  ];
+}
+
+/**
+ * The checks that only look at package.json, node_modules and the
+ * lockfile, not at the sources.
+ */
+export async function scanDeclaredDependencies(
+  projectPath: string,
+  config: ScanConfig,
+  rootPath = projectPath
+): Promise<Issue[]> {
   const issues: Issue[] = [];
-  const packageJsonPath = path.join(projectPath, 'package.json');
+  const packageJson = readPackageJson(projectPath);
 
-  if (!fs.existsSync(packageJsonPath)) {
+  if (!packageJson) {
     return issues;
   }
 
-  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
   const deps = { ...packageJson.dependencies, ...packageJson.devDependencies };
   const depNames = Object.keys(deps || {});
 
-  checkHeavyDependencies(depNames, issues);
+  const measure = (name: string): PackageFootprint | null => {
+    const packageDir = findInstalledPackage(name, projectPath, rootPath);
+    return packageDir ? measurePackage(packageDir) : null;
+  };
+
+  if (hasNodeModules(projectPath, rootPath)) {
+    checkDependencySizes(
+      Object.keys(packageJson.dependencies || {}),
+      measure,
+      config.thresholds,
+      issues
+    );
+  } else {
+    checkHeavyDependencies(depNames, issues);
+  }
   await checkLodashImports(depNames, projectPath, issues);
   checkDuplicateLibraries(depNames, issues);
-  checkDependencyCount(packageJson, issues);
+  checkDependencyCount(
+    packageJson,
+    config.thresholds.highDependencyCount,
+    issues
+  );
+
+  const lockfile = readLockfile(projectPath, rootPath);
+  if (lockfile) {
+    const chains = traceDependencies(lockfile);
+    checkDuplicateVersions(lockfile, chains, issues);
+    checkTransitiveHeavyDependencies(
+      lockfile,
+      chains,
+      depNames,
+      measure,
+      issues
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Compares the declared dependencies with what the sources import: unused,
+ * undeclared and misplaced dependencies. Watch mode re-runs these alone
+ * when a source file changes.
+ */
+export function checkDependencyUsage(
+  projectPath: string,
+  graph: ImportGraph,
+  rootPath = projectPath
+): Issue[] {
+  const issues: Issue[] = [];
+  const packageJson = readPackageJson(projectPath);
+
+  if (!packageJson) {
+    return issues;
+  }
+
+  const readManifest = (name: string): PackageJson | null => {
+    const packageDir = findInstalledPackage(name, projectPath, rootPath);
+    return packageDir ? readJSON(path.join(packageDir, 'package.json')) : null;
+  };
+
+  checkUnusedDependencies(packageJson, graph, readManifest, issues);
+  checkUndeclaredDependencies(packageJson, graph, issues);
+  checkMisplacedDependencies(packageJson, graph, issues);
 
   return issues;
 }
 
+/**
+ * Flags production dependencies whose installed footprint exceeds the
+ * size budgets. `HEAVY_DEPS` only supplies the suggested alternative, and
+ * the name check for packages that are missing from node_modules.
+ */
+function checkDependencySizes(
+  names: string[],
+  measure: (name: string) => PackageFootprint | null,
+  thresholds: Thresholds,
+  issues: Issue[]
+): void {
+  const unmeasured: string[] = [];
+
+  for (const name of names) {
+    if (FRAMEWORK_PACKAGES.includes(name)) continue;
+
+    const footprint = measure(name);
+    if (!footprint) {
+      unmeasured.push(name);
+      continue;
+    }
+    if (footprint.gzipSize < thresholds.dependencySizeWarning) continue;
+
+    const heavy = HEAVY_DEPS.find((dep) => dep.name === name);
+
+    issues.push({
+      severity:
+        footprint.gzipSize >= thresholds.dependencySizeCritical
+          ? 'critical'
+          : 'warning',
+      category: 'dependency',
+      rule: 'dependency/heavy',
+      title: `Heavy dependency: ${name}`,
+      message:
+        `${name}@${footprint.version} adds ~${formatSize(
+          footprint.gzipSize
+        )} min+gzip ` +
+        `(${formatSize(footprint.size)} in ${footprint.files} file${
+          footprint.files === 1 ? '' : 's'
+        })`,
+      suggestion: heavy
+        ? `Consider using ${heavy.alternative}`
+        : 'Look for a lighter alternative or import only the modules you use',
+      impact: `Removing could save ~${formatSize(footprint.gzipSize)}`,
+    });
+  }
+
+  checkHeavyDependencies(unmeasured, issues);
+}
+
+/**
+ * Fallback when dependencies are not installed, or one of them is not:
+ * flags well-known heavy packages by name since their size cannot be
+ * measured.
+ */
 function checkHeavyDependencies(depNames: string[], issues: Issue[]): void {
   for (const heavy of HEAVY_DEPS) {
     if (depNames.includes(heavy.name)) {
       issues.push({
         severity: CRITICAL_DEPS.includes(heavy.name) ? 'critical' : 'warning',
         category: 'dependency',
+        rule: 'dependency/heavy',
         title: `Heavy dependency: ${heavy.name}`,
-        message: `${heavy.name} (${heavy.size}) adds significant bundle size`,
+        message: `${heavy.name} is known to add significant bundle size (install dependencies to measure it)`,
         suggestion: `Consider using ${heavy.alternative}`,
-        impact: `Removing could save ~${heavy.size}`,
       });
     }
   }
@@ -57,6 +215,7 @@ async function checkLodashImports(
     issues.push({
       severity: 'warning',
       category: 'dependency',
+      rule: 'dependency/lodash-full-import',
       title: 'Full lodash import detected',
       message: 'Importing entire lodash instead of specific functions',
       suggestion:
@@ -71,6 +230,7 @@ function checkDuplicateLibraries(depNames: string[], issues: Issue[]): void {
     issues.push({
       severity: 'warning',
       category: 'dependency',
+      rule: 'dependency/duplicate-http',
       title: 'Duplicate HTTP libraries',
       message: 'Both axios and node-fetch are installed',
       suggestion: 'Use one HTTP library consistently',
@@ -81,6 +241,7 @@ function checkDuplicateLibraries(depNames: string[], issues: Issue[]): void {
     issues.push({
       severity: 'warning',
       category: 'dependency',
+      rule: 'dependency/duplicate-date',
       title: 'Duplicate date libraries',
       message: 'Both moment and date-fns are installed',
       suggestion: 'Migrate fully to date-fns and remove moment',
@@ -90,15 +251,17 @@ function checkDuplicateLibraries(depNames: string[], issues: Issue[]): void {
 
 function checkDependencyCount(
   packageJson: Record<string, unknown>,
+  maxCount: number,
   issues: Issue[]
 ): void {
   const deps = packageJson.dependencies as Record<string, string> | undefined;
   const prodDeps = Object.keys(deps || {}).length;
 
-  if (prodDeps > HIGH_DEPENDENCY_COUNT) {
+  if (prodDeps > maxCount) {
     issues.push({
       severity: 'warning',
       category: 'dependency',
+      rule: 'dependency/count',
       title: 'High dependency count',
       message: `${prodDeps} production dependencies installed`,
       suggestion: 'Review if all dependencies are necessary',
@@ -106,6 +269,249 @@ function checkDependencyCount(
   }
 }
 
+/**
+ * A production dependency counts as used when it is imported, named in a
+ * tool config, required as a peer by another dependency, or run from an
+ * npm script.
+ */
+function checkUnusedDependencies(
+  packageJson: PackageJson,
+  graph: ImportGraph,
+  readManifest: (name: string) => PackageJson | null,
+  issues: Issue[]
+): void {
+  const names = Object.keys(packageJson.dependencies || {});
+  const manifests = new Map(names.map((name) => [name, readManifest(name)]));
+  const peers = new Set(
+    [...manifests.values()].flatMap((manifest) =>
+      Object.keys(manifest?.peerDependencies || {})
+    )
+  );
+  const commands = new Set(
+    Object.values(packageJson.scripts || {})
+      .join(' ')
+      .split(/[\s;&|()]+/)
+  );
+  const main =
+    typeof packageJson.main === 'string' && toPackageName(packageJson.main);
+
+  for (const name of names) {
+    const bin = manifests.get(name)?.bin;
+    const binaries =
+      typeof bin === 'string'
+        ? [name.replace(/^@[^/]+\//, '')]
+        : Object.keys(bin || {});
+
+    const isUsed =
+      graph.imports.has(name) ||
+      graph.configPackages.has(name) ||
+      peers.has(name) ||
+      main === name ||
+      IMPLICIT_DEPENDENCIES.includes(name) ||
+      name.startsWith('@types/') ||
+      binaries.some((binary) => commands.has(binary));
+
+    if (!isUsed) {
+      issues.push({
+        severity: 'warning',
+        category: 'dependency',
+        rule: 'dependency/unused',
+        title: `Unused dependency: ${name}`,
+        message: `${name} is listed in dependencies but never imported`,
+        suggestion: `Remove ${name} from package.json if nothing loads it at runtime`,
+      });
+    }
+  }
+}
+
+function checkUndeclaredDependencies(
+  packageJson: PackageJson,
+  graph: ImportGraph,
+  issues: Issue[]
+): void {
+  const declared = new Set(
+    Object.keys({
+      ...packageJson.dependencies,
+      ...packageJson.devDependencies,
+      ...packageJson.peerDependencies,
+      ...packageJson.optionalDependencies,
+    })
+  );
+
+  for (const [name, references] of graph.imports) {
+    if (declared.has(name) || name === packageJson.name) continue;
+
+    // Type-only imports are satisfied by a declared @types package
+    const isTypeOnly = references.every((ref) => ref.isTypeOnly);
+    if (isTypeOnly && declared.has(`@types/${name}`)) continue;
+
+    const [first] = references;
+    const files = new Set(references.map((ref) => ref.file)).size;
+
+    issues.push({
+      severity: 'warning',
+      category: 'dependency',
+      rule: 'dependency/undeclared',
+      title: `Undeclared dependency: ${name}`,
+      file: first.file,
+      line: first.line,
+      column: first.column,
+      message: `${name} is imported in ${files} file(s) but not listed in package.json`,
+      suggestion: `Add ${name} to dependencies, or devDependencies if only tests and tooling use it`,
+    });
+  }
+}
+
+function checkMisplacedDependencies(
+  packageJson: PackageJson,
+  graph: ImportGraph,
+  issues: Issue[]
+): void {
+  const runtime = new Set(
+    Object.keys({
+      ...packageJson.dependencies,
+      ...packageJson.peerDependencies,
+      ...packageJson.optionalDependencies,
+    })
+  );
+
+  for (const name of Object.keys(packageJson.devDependencies || {})) {
+    if (runtime.has(name)) continue;
+
+    const references = (graph.imports.get(name) || []).filter(
+      (ref) => !ref.isDev && !ref.isTypeOnly
+    );
+    if (references.length === 0) continue;
+
+    const [first] = references;
+    const files = new Set(references.map((ref) => ref.file)).size;
+
+    issues.push({
+      severity: 'warning',
+      category: 'dependency',
+      rule: 'dependency/misplaced',
+      title: `Dev dependency used at runtime: ${name}`,
+      file: first.file,
+      line: first.line,
+      column: first.column,
+      message: `${name} is only in devDependencies but app code imports it in ${files} file(s)`,
+      suggestion: `Move ${name} to dependencies`,
+    });
+  }
+}
+
+function checkDuplicateVersions(
+  graph: LockfileGraph,
+  chains: Map<string, string[]>,
+  issues: Issue[]
+): void {
+  // name -> version -> shortest chain bringing that version in
+  const versions = new Map<string, Map<string, string[]>>();
+
+  for (const [id, chain] of chains) {
+    const { name, version } = graph.packages.get(id) as LockedPackage;
+    const byVersion = versions.get(name) || new Map<string, string[]>();
+
+    if (!byVersion.has(version)) byVersion.set(version, chain);
+    versions.set(name, byVersion);
+  }
+
+  for (const [name, byVersion] of versions) {
+    if (byVersion.size < 2) continue;
+
+    const isImportant =
+      SINGLETON_PACKAGES.includes(name) ||
+      HEAVY_DEPS.some((heavy) => heavy.name === name);
+    const installs = [...byVersion].map(
+      ([version, chain]) => `${version} via ${formatChain(graph, chain)}`
+    );
+
+    issues.push({
+      severity: isImportant ? 'warning' : 'info',
+      category: 'dependency',
+      rule: 'dependency/duplicate-versions',
+      title: `Multiple versions of ${name}`,
+      message: `${name} is installed at ${
+        byVersion.size
+      } versions: ${installs.join('; ')}`,
+      suggestion: `Align the version ranges or pin one version with "${graph.lockfile.overrides}" in package.json`,
+    });
+  }
+}
+
+function checkTransitiveHeavyDependencies(
+  graph: LockfileGraph,
+  chains: Map<string, string[]>,
+  depNames: string[],
+  measure: (name: string) => PackageFootprint | null,
+  issues: Issue[]
+): void {
+  for (const heavy of HEAVY_DEPS) {
+    // Direct dependencies are reported by the size checks
+    if (depNames.includes(heavy.name)) continue;
+
+    const chain = [...chains].find(
+      ([id]) => graph.packages.get(id)?.name === heavy.name
+    )?.[1];
+    if (!chain) continue;
+
+    const direct = graph.packages.get(chain[0]) as LockedPackage;
+    const footprint = measure(heavy.name);
+    const size = footprint ? ` (~${formatSize(footprint.gzipSize)})` : '';
+
+    issues.push({
+      severity: 'warning',
+      category: 'dependency',
+      rule: 'dependency/transitive-heavy',
+      title: `Transitive heavy dependency: ${heavy.name}`,
+      message: `${heavy.name}${size} is pulled in via ${formatChain(
+        graph,
+        chain
+      )}`,
+      suggestion: `Check if a newer ${direct.name} drops it, or replace ${direct.name}`,
+      impact: footprint
+        ? `Could save ~${formatSize(footprint.gzipSize)}`
+        : undefined,
+    });
+  }
+}
+
+/**
+ * Renders a chain of package IDs as `a@1.0.0 > b@2.0.0 > c@3.0.0`.
+ */
+function formatChain(graph: LockfileGraph, chain: string[]): string {
+  return chain
+    .map((id) => {
+      const pkg = graph.packages.get(id) as LockedPackage;
+      return `${pkg.name}@${pkg.version}`;
+    })
+    .join(' > ');
+}
+
+/**
+ * Null when the project has no package.json; a malformed one still throws.
+ */
+function readPackageJson(projectPath: string): PackageJson | null {
+  const packageJsonPath = path.join(projectPath, 'package.json');
+  if (!fs.existsSync(packageJsonPath)) return null;
+
+  return JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+}
+
+function readJSON(filePath: string): PackageJson | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function hasNodeModules(projectPath: string, rootPath: string): boolean {
+  return [projectPath, rootPath].some((dir) =>
+    fs.existsSync(path.join(dir, 'node_modules'))
+  );
+}
+
 async function detectFullLodashImport(srcPath: string): Promise<boolean> {
   const { glob } = await import('glob');
   const files = await glob('**/*.{js,jsx,ts,tsx}', { cwd: srcPath });
@@ -0,0 +1,179 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as ts from 'typescript';
+import { PackageJson } from '../types';
+import {
+  ENTRY_FIELDS,
+  MAX_PACKAGE_FILES,
+  RESOLVE_EXTENSIONS,
+} from '../constants';
+
+export interface PackageFootprint {
+  name: string;
+  version: string;
+  /** Number of files reachable from the entry point */
+  files: number;
+  /** Raw size of those files in bytes */
+  size: number;
+  /** Estimated minified + gzipped size in bytes */
+  gzipSize: number;
+}
+
+/**
+ * Finds an installed package by walking up from `projectPath` to
+ * `rootPath`, so dependencies hoisted to the workspace root are found too.
+ */
+export function findInstalledPackage(
+  name: string,
+  projectPath: string,
+  rootPath = projectPath
+): string | null {
+  for (let dir = projectPath; ; dir = path.dirname(dir)) {
+    const packageDir = path.join(dir, 'node_modules', name);
+    if (fs.existsSync(path.join(packageDir, 'package.json'))) {
+      return packageDir;
+    }
+
+    if (dir === rootPath || path.dirname(dir) === dir) return null;
+  }
+}
+
+/**
+ * Measures what a package adds to a bundle: starting at its entry point
+ * (`react-native`, `browser`, `module` or `main`), every file reachable
+ * through relative imports and requires is summed. The gzip size is
+ * estimated by compressing the files with comments and whitespace removed.
+ * Returns null for packages without a JavaScript entry, such as `@types/*`.
+ */
+export function measurePackage(packageDir: string): PackageFootprint | null {
+  let manifest: PackageJson;
+  try {
+    manifest = JSON.parse(
+      fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8')
+    );
+  } catch {
+    return null;
+  }
+
+  const entry = resolveEntry(packageDir, manifest);
+  if (!entry) return null;
+
+  let size = 0;
+  const minified: string[] = [];
+
+  for (const file of collectReachableFiles(packageDir, entry)) {
+    const content = fs.readFileSync(file, 'utf-8');
+    size += Buffer.byteLength(content);
+    minified.push(file.endsWith('.json') ? content : stripTrivia(content));
+  }
+
+  return {
+    name:
+      typeof manifest.name === 'string'
+        ? manifest.name
+        : path.basename(packageDir),
+    version: typeof manifest.version === 'string' ? manifest.version : '',
+    files: minified.length,
+    size,
+    gzipSize: zlib.gzipSync(minified.join('\n')).length,
+  };
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+// Helper functions
+
+function resolveEntry(
+  packageDir: string,
+  manifest: PackageJson
+): string | null {
+  for (const field of ENTRY_FIELDS) {
+    const value = manifest[field];
+    if (typeof value !== 'string') continue;
+
+    const entry = resolveFile(path.resolve(packageDir, value));
+    if (entry) return entry;
+  }
+
+  return resolveFile(path.join(packageDir, 'index'));
+}
+
+function resolveFile(base: string): string | null {
+  const candidates = [
+    base,
+    ...RESOLVE_EXTENSIONS.map((ext) => `${base}${ext}`),
+    ...RESOLVE_EXTENSIONS.map((ext) => path.join(base, `index${ext}`)),
+  ];
+
+  return (
+    candidates.find(
+      (file) => fs.existsSync(file) && fs.statSync(file).isFile()
+    ) || null
+  );
+}
+
+/**
+ * Breadth-first walk over relative `import`, `require()` and `import()`
+ * specifiers. Other packages are measured on their own, so bare specifiers
+ * are not followed.
+ */
+function collectReachableFiles(packageDir: string, entry: string): string[] {
+  const files = [entry];
+  const seen = new Set(files);
+
+  for (let i = 0; i < files.length && files.length < MAX_PACKAGE_FILES; i++) {
+    if (files[i].endsWith('.json')) continue;
+
+    const content = fs.readFileSync(files[i], 'utf-8');
+    const { importedFiles } = ts.preProcessFile(content, true, true);
+
+    for (const { fileName } of importedFiles) {
+      if (!fileName.startsWith('.')) continue;
+
+      const file = resolveFile(path.resolve(path.dirname(files[i]), fileName));
+      if (!file || seen.has(file) || !file.startsWith(packageDir)) continue;
+
+      seen.add(file);
+      files.push(file);
+    }
+  }
+
+  return files.slice(0, MAX_PACKAGE_FILES);
+}
+
+/**
+ * Rough minification: re-joins the tokens of a file without comments and
+ * whitespace. Identifiers are kept, so the estimate errs on the high side.
+ */
+function stripTrivia(content: string): string {
+  const scanner = ts.createScanner(
+    ts.ScriptTarget.Latest,
+    true,
+    ts.LanguageVariant.Standard,
+    content
+  );
+  const tokens: string[] = [];
+  let previous = '';
+
+  for (
+    let token = scanner.scan();
+    token !== ts.SyntaxKind.EndOfFileToken;
+    token = scanner.scan()
+  ) {
+    const text = scanner.getTokenText();
+
+    // Keep a separator between words, e.g. `return value`
+    if (/[\w$]$/.test(previous) && /^[\w$]/.test(text)) tokens.push(' ');
+
+    tokens.push(text);
+    previous = text;
+  }
+
+  return tokens.join('');
+}
@@ -0,0 +1,219 @@
+import * as fs from 'fs';
+
+export interface ImageInfo {
+  format: 'png' | 'jpeg' | 'gif' | 'webp';
+  width: number;
+  height: number;
+  /** Bits per channel (PNG, JPEG) or per palette entry (GIF) */
+  bitDepth: number;
+  hasAlpha: boolean;
+  isAnimated: boolean;
+}
+
+/**
+ * Reads dimensions and pixel format from PNG, JPEG, GIF and WebP headers
+ * without decoding the image. Returns null for other formats or truncated
+ * files.
+ */
+export function readImageInfo(filePath: string): ImageInfo | null {
+  const buffer = fs.readFileSync(filePath);
+
+  try {
+    if (buffer.toString('hex', 0, 8) === '89504e470d0a1a0a') {
+      return readPNG(buffer);
+    }
+    if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+      return readJPEG(buffer);
+    }
+    if (/^GIF8[79]a$/.test(buffer.toString('ascii', 0, 6))) {
+      return readGIF(buffer);
+    }
+    if (
+      buffer.toString('ascii', 0, 4) === 'RIFF' &&
+      buffer.toString('ascii', 8, 12) === 'WEBP'
+    ) {
+      return readWebP(buffer);
+    }
+  } catch {
+    // Reading past the end of a truncated file
+  }
+
+  return null;
+}
+
+// Helper functions
+
+/**
+ * IHDR holds size, bit depth and color type. Alpha comes from the color
+ * type or a tRNS chunk, animation from an acTL chunk (APNG); both must
+ * appear before the first IDAT.
+ */
+function readPNG(buffer: Buffer): ImageInfo {
+  const colorType = buffer[25];
+  let hasAlpha = colorType === 4 || colorType === 6;
+  let isAnimated = false;
+
+  for (let offset = 8; offset + 8 <= buffer.length; ) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+
+    if (type === 'IDAT') break;
+    if (type === 'tRNS') hasAlpha = true;
+    if (type === 'acTL') isAnimated = true;
+
+    // length + type + data + CRC
+    offset += 12 + length;
+  }
+
+  return {
+    format: 'png',
+    width: buffer.readUInt32BE(16),
+    height: buffer.readUInt32BE(20),
+    bitDepth: buffer[24],
+    hasAlpha,
+    isAnimated,
+  };
+}
+
+/**
+ * Walks the marker segments up to the first SOFn frame header.
+ */
+function readJPEG(buffer: Buffer): ImageInfo | null {
+  let offset = 2;
+
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+
+    const marker = buffer[offset + 1];
+
+    // Fill bytes and markers without a length field
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += 2;
+      continue;
+    }
+
+    const isFrameHeader =
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc;
+
+    if (isFrameHeader) {
+      return {
+        format: 'jpeg',
+        width: buffer.readUInt16BE(offset + 7),
+        height: buffer.readUInt16BE(offset + 5),
+        bitDepth: buffer[offset + 4],
+        hasAlpha: false,
+        isAnimated: false,
+      };
+    }
+
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+
+  return null;
+}
+
+/**
+ * The logical screen descriptor holds the size. Frames are counted by
+ * walking the block stream; a graphic control extension with the
+ * transparency flag set means the image has alpha.
+ */
+function readGIF(buffer: Buffer): ImageInfo {
+  const packed = buffer[10];
+  let offset = 13;
+  let frames = 0;
+  let hasAlpha = false;
+
+  if (packed & 0x80) offset += 3 * 2 ** ((packed & 0x07) + 1);
+
+  while (offset < buffer.length && buffer[offset] !== 0x3b) {
+    const block = buffer[offset];
+
+    if (block === 0x21) {
+      if (buffer[offset + 1] === 0xf9 && buffer[offset + 3] & 0x01) {
+        hasAlpha = true;
+      }
+      offset = skipSubBlocks(buffer, offset + 2);
+    } else if (block === 0x2c) {
+      frames++;
+
+      const imagePacked = buffer[offset + 9];
+      offset += 10;
+      if (imagePacked & 0x80) offset += 3 * 2 ** ((imagePacked & 0x07) + 1);
+
+      // LZW minimum code size, then the image data
+      offset = skipSubBlocks(buffer, offset + 1);
+    } else {
+      break;
+    }
+  }
+
+  return {
+    format: 'gif',
+    width: buffer.readUInt16LE(6),
+    height: buffer.readUInt16LE(8),
+    bitDepth: (packed & 0x07) + 1,
+    hasAlpha,
+    isAnimated: frames > 1,
+  };
+}
+
+function skipSubBlocks(buffer: Buffer, offset: number): number {
+  while (offset < buffer.length && buffer[offset] !== 0) {
+    offset += buffer[offset] + 1;
+  }
+
+  return offset + 1;
+}
+
+/**
+ * The first chunk is VP8X (extended, with alpha/animation flags), VP8L
+ * (lossless) or VP8 (lossy).
+ */
+function readWebP(buffer: Buffer): ImageInfo | null {
+  const chunk = buffer.toString('ascii', 12, 16);
+
+  if (chunk === 'VP8X') {
+    const flags = buffer[20];
+    return {
+      format: 'webp',
+      width: buffer.readUIntLE(24, 3) + 1,
+      height: buffer.readUIntLE(27, 3) + 1,
+      bitDepth: 8,
+      hasAlpha: (flags & 0x10) !== 0,
+      isAnimated: (flags & 0x02) !== 0,
+    };
+  }
+
+  if (chunk === 'VP8L') {
+    const bits = buffer.readUInt32LE(21);
+    return {
+      format: 'webp',
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+      bitDepth: 8,
+      hasAlpha: ((bits >> 28) & 0x01) !== 0,
+      isAnimated: false,
+    };
+  }
+
+  if (chunk === 'VP8 ') {
+    return {
+      format: 'webp',
+      width: buffer.readUInt16LE(26) & 0x3fff,
+      height: buffer.readUInt16LE(28) & 0x3fff,
+      bitDepth: 8,
+      hasAlpha: false,
+      isAnimated: false,
+    };
+  }
+
+  return null;
+}
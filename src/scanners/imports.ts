@@ -0,0 +1,257 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { builtinModules } from 'module';
+import * as ts from 'typescript';
+import { ScanConfig } from '../types';
+import {
+  IMPORT_SOURCE_GLOB,
+  DEV_FILE_PATTERNS,
+  TOOL_CONFIG_FILES,
+} from '../constants';
+import { parseFile, getModuleReferences, getPosition } from './ast';
+
+export interface ImportReference {
+  file: string;
+  line: number;
+  column: number;
+  /** Imported from a test, story, script or tool config file */
+  isDev: boolean;
+  isTypeOnly: boolean;
+}
+
+export interface ImportGraph {
+  /** Package name -> every place it is imported */
+  imports: Map<string, ImportReference[]>;
+  /** Packages named as strings in tool configs, e.g. Babel presets */
+  configPackages: Set<string>;
+}
+
+/** Package name -> where one file imports it */
+export type FileImports = Map<string, ImportReference[]>;
+
+/** What classifying a file's imports needs to know about the project */
+export interface ImportScope {
+  /** Source files that only tests and tooling load */
+  devFiles: Set<string>;
+  /** True for tsconfig path aliases, which look like package names */
+  isAlias: (specifier: string) => boolean;
+}
+
+/**
+ * Collects which packages the project's sources load. Relative imports,
+ * Node built-ins and tsconfig path aliases are left out, so every key of
+ * `imports` is an npm package name.
+ */
+export async function buildImportGraph(
+  projectPath: string,
+  config: ScanConfig
+): Promise<ImportGraph> {
+  const { glob } = await import('glob');
+  const files = await glob(IMPORT_SOURCE_GLOB, {
+    cwd: projectPath,
+    ignore: getImportIgnorePatterns(config),
+  });
+  const scope = await readImportScope(projectPath, config);
+  const imports: FileImports[] = [];
+
+  for (const file of files) {
+    try {
+      const content = fs.readFileSync(path.join(projectPath, file), 'utf-8');
+      imports.push(collectFileImports(file, content, scope));
+    } catch {
+      // Skip unreadable files
+    }
+  }
+
+  return createImportGraph(projectPath, imports);
+}
+
+export function getImportIgnorePatterns(config: ScanConfig): string[] {
+  return [...config.ignorePatterns, '**/*.d.ts'];
+}
+
+export async function readImportScope(
+  projectPath: string,
+  config: ScanConfig
+): Promise<ImportScope> {
+  const { glob } = await import('glob');
+  const devFiles = await glob(DEV_FILE_PATTERNS, {
+    cwd: projectPath,
+    ignore: getImportIgnorePatterns(config),
+    dot: true,
+  });
+
+  return {
+    devFiles: new Set(devFiles),
+    isAlias: readPathAliases(projectPath),
+  };
+}
+
+/**
+ * The packages one file imports, so callers that keep files cached (watch
+ * mode) can update the graph one file at a time.
+ */
+export function collectFileImports(
+  file: string,
+  content: string,
+  scope: ImportScope
+): FileImports {
+  const parsed = parseFile(file, content);
+  const imports: FileImports = new Map();
+
+  for (const reference of getModuleReferences(parsed)) {
+    const name = toPackageName(reference.specifier);
+    if (!name || scope.isAlias(reference.specifier)) continue;
+
+    imports.set(name, [
+      ...(imports.get(name) || []),
+      {
+        file,
+        ...getPosition(parsed, reference.node),
+        isDev: scope.devFiles.has(file),
+        isTypeOnly: reference.isTypeOnly,
+      },
+    ]);
+  }
+
+  return imports;
+}
+
+export function createImportGraph(
+  projectPath: string,
+  files: FileImports[]
+): ImportGraph {
+  const imports = new Map<string, ImportReference[]>();
+
+  for (const file of files) {
+    for (const [name, references] of file) {
+      imports.set(name, [...(imports.get(name) || []), ...references]);
+    }
+  }
+
+  return { imports, configPackages: readConfigPackages(projectPath) };
+}
+
+/**
+ * Maps a bare specifier to its package: `lodash/debounce` -> `lodash`,
+ * `@scope/pkg/sub` -> `@scope/pkg`. Returns null for relative paths,
+ * Node built-ins and anything that is not a valid package name.
+ */
+export function toPackageName(specifier: string): string | null {
+  if (specifier.startsWith('node:')) return null;
+
+  const parts = specifier.split('/');
+  const name = specifier.startsWith('@')
+    ? parts.slice(0, 2).join('/')
+    : parts[0];
+
+  if (!/^(@[a-z0-9-][\w.-]*\/)?[a-z0-9-][\w.-]*$/.test(name)) return null;
+  if (builtinModules.includes(name)) return null;
+
+  return name;
+}
+
+// Helper functions
+
+/**
+ * Builds a matcher for imports resolved through tsconfig/jsconfig `paths`
+ * or `baseUrl`, which look like package names but point at local files.
+ */
+function readPathAliases(projectPath: string): (specifier: string) => boolean {
+  const prefixes: string[] = [];
+
+  for (const name of ['tsconfig.json', 'jsconfig.json']) {
+    const configPath = path.join(projectPath, name);
+    if (!fs.existsSync(configPath)) continue;
+
+    const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+    const options = config?.compilerOptions || {};
+
+    for (const key of Object.keys(options.paths || {})) {
+      prefixes.push(key.replace(/\*$/, ''));
+    }
+
+    if (typeof options.baseUrl === 'string') {
+      const baseDir = path.join(projectPath, options.baseUrl);
+      const entries = fs.existsSync(baseDir) ? fs.readdirSync(baseDir) : [];
+
+      for (const entry of entries) {
+        if (entry !== 'node_modules') {
+          prefixes.push(entry.replace(/\.[jt]sx?$/, ''));
+        }
+      }
+    }
+  }
+
+  return (specifier) =>
+    prefixes.some((prefix) =>
+      prefix.endsWith('/')
+        ? specifier.startsWith(prefix)
+        : specifier === prefix || specifier.startsWith(`${prefix}/`)
+    );
+}
+
+/**
+ * Tool configs name packages as plain strings (`presets: ['module:...']`,
+ * Expo `plugins`). Babel shorthands are expanded to every package name they
+ * may stand for.
+ */
+function readConfigPackages(projectPath: string): Set<string> {
+  const packages = new Set<string>();
+
+  for (const file of TOOL_CONFIG_FILES) {
+    const filePath = path.join(projectPath, file);
+    if (!fs.existsSync(filePath)) continue;
+
+    for (const value of readStrings(fs.readFileSync(filePath, 'utf-8'))) {
+      for (const candidate of expandBabelName(value.replace(/^module:/, ''))) {
+        const name = toPackageName(candidate);
+        if (name) packages.add(name);
+      }
+    }
+  }
+
+  return packages;
+}
+
+function readStrings(content: string): string[] {
+  const scanner = ts.createScanner(
+    ts.ScriptTarget.Latest,
+    true,
+    ts.LanguageVariant.Standard,
+    content
+  );
+  const strings: string[] = [];
+
+  for (
+    let token = scanner.scan();
+    token !== ts.SyntaxKind.EndOfFileToken;
+    token = scanner.scan()
+  ) {
+    if (
+      token === ts.SyntaxKind.StringLiteral ||
+      token === ts.SyntaxKind.NoSubstitutionTemplateLiteral
+    ) {
+      strings.push(scanner.getTokenValue());
+    }
+  }
+
+  return strings;
+}
+
+function expandBabelName(value: string): string[] {
+  const scoped = value.match(/^(@[^/]+)\/(.+)$/);
+
+  if (scoped) {
+    const [, scope, name] = scoped;
+    return [
+      value,
+      `${scope}/babel-plugin-${name}`,
+      `${scope}/babel-preset-${name}`,
+      `${scope}/plugin-${name}`,
+      `${scope}/preset-${name}`,
+    ];
+  }
+
+  return [value, `babel-plugin-${value}`, `babel-preset-${value}`];
+}
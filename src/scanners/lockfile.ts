@@ -0,0 +1,457 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Lockfile, PackageJson } from '../types';
+import { LOCKFILES } from '../constants';
+
+export interface LockedPackage {
+  name: string;
+  version: string;
+  /** IDs of the packages this one depends on */
+  dependencies: string[];
+}
+
+export interface LockfileGraph {
+  lockfile: Lockfile;
+  packages: Map<string, LockedPackage>;
+  /** IDs of the project's direct production dependencies */
+  roots: string[];
+}
+
+interface Tree {
+  [key: string]: string | Tree;
+}
+
+type Dependencies = Record<string, string>;
+
+/** An entry of `packages` in npm lockfile v2/v3, keyed by install location */
+interface NpmLockEntry {
+  name?: string;
+  version?: string;
+  resolved?: string;
+  link?: boolean;
+  dependencies?: Dependencies;
+  optionalDependencies?: Dependencies;
+}
+
+/** An entry of the nested `dependencies` tree in npm lockfile v1 */
+interface NpmV1Dependency {
+  version?: string;
+  requires?: Dependencies;
+  dependencies?: Record<string, NpmV1Dependency>;
+}
+
+interface NpmLockfile {
+  packages?: Record<string, NpmLockEntry>;
+  dependencies?: Record<string, NpmV1Dependency>;
+}
+
+/**
+ * Reads the dependency graph from `package-lock.json`, `yarn.lock` (v1 and
+ * berry) or `pnpm-lock.yaml`. Workspace packages share the lockfile of the
+ * workspace root, so `rootPath` is searched after the project itself.
+ * Returns null when there is no readable lockfile.
+ */
+export function readLockfile(
+  projectPath: string,
+  rootPath = projectPath
+): LockfileGraph | null {
+  for (const dir of new Set([projectPath, rootPath])) {
+    for (const lockfile of LOCKFILES) {
+      const filePath = path.join(dir, lockfile.file);
+      if (!fs.existsSync(filePath)) continue;
+
+      const location = path
+        .relative(dir, projectPath)
+        .split(path.sep)
+        .join('/');
+
+      try {
+        const content = fs.readFileSync(filePath, 'utf-8');
+        const graph = parseLockfile(lockfile.file, content, location, () =>
+          readProductionDependencies(projectPath)
+        );
+
+        return { lockfile, ...graph };
+      } catch {
+        // Unparseable lockfile, skip the lockfile checks
+        return null;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Shortest chain of package IDs from a direct dependency to every package
+ * reachable from the project. Map order follows the breadth-first walk, so
+ * the first match for a name is also the closest one.
+ */
+export function traceDependencies(graph: LockfileGraph): Map<string, string[]> {
+  const chains = new Map<string, string[]>();
+  const queue: string[] = [];
+
+  for (const id of graph.roots) {
+    if (graph.packages.has(id) && !chains.has(id)) {
+      chains.set(id, [id]);
+      queue.push(id);
+    }
+  }
+
+  for (let i = 0; i < queue.length; i++) {
+    const chain = chains.get(queue[i]) as string[];
+
+    for (const dep of graph.packages.get(queue[i])?.dependencies || []) {
+      if (graph.packages.has(dep) && !chains.has(dep)) {
+        chains.set(dep, [...chain, dep]);
+        queue.push(dep);
+      }
+    }
+  }
+
+  return chains;
+}
+
+// Helper functions
+
+function parseLockfile(
+  file: string,
+  content: string,
+  location: string,
+  getRootDependencies: () => Dependencies
+): Omit<LockfileGraph, 'lockfile'> {
+  if (file === 'pnpm-lock.yaml') {
+    return parsePnpmLockfile(content, location);
+  }
+
+  if (file === 'yarn.lock') {
+    return parseYarnLockfile(content, getRootDependencies());
+  }
+
+  return parseNpmLockfile(content, location, getRootDependencies());
+}
+
+/**
+ * npm lockfiles key packages by install location. Lockfile v1 nests them,
+ * so it is flattened into the same `node_modules/a/node_modules/b` keys.
+ * Dependencies resolve like Node does: nearest `node_modules` upwards.
+ */
+function parseNpmLockfile(
+  content: string,
+  location: string,
+  rootDependencies: Dependencies
+): Omit<LockfileGraph, 'lockfile'> {
+  const lock: NpmLockfile = JSON.parse(content);
+  const entries: Record<string, NpmLockEntry> =
+    lock.packages || flattenNpmV1(lock.dependencies || {});
+
+  const resolve = (from: string, name: string): string | undefined => {
+    for (let dir = from; ; dir = parentDir(dir)) {
+      const id = dir ? `${dir}/node_modules/${name}` : `node_modules/${name}`;
+      const entry = entries[id];
+
+      if (entry) {
+        return entry.link && typeof entry.resolved === 'string'
+          ? entry.resolved
+          : id;
+      }
+
+      if (!dir) return undefined;
+    }
+  };
+
+  const packages = new Map<string, LockedPackage>();
+
+  for (const [id, entry] of Object.entries(entries)) {
+    if (!id || entry.link) continue;
+
+    const deps = { ...entry.dependencies, ...entry.optionalDependencies };
+
+    packages.set(id, {
+      name: entry.name || nameFromLocation(id),
+      version: entry.version || '',
+      dependencies: resolveAll(deps, (name) => resolve(id, name)),
+    });
+  }
+
+  return {
+    packages,
+    roots: resolveAll(rootDependencies, (name) => resolve(location, name)),
+  };
+}
+
+function flattenNpmV1(
+  dependencies: Record<string, NpmV1Dependency>,
+  prefix = ''
+): Record<string, NpmLockEntry> {
+  const entries: Record<string, NpmLockEntry> = {};
+
+  for (const [name, dep] of Object.entries(dependencies)) {
+    const id = `${prefix}node_modules/${name}`;
+
+    entries[id] = { version: dep.version, dependencies: dep.requires };
+    Object.assign(entries, flattenNpmV1(dep.dependencies || {}, `${id}/`));
+  }
+
+  return entries;
+}
+
+/**
+ * Yarn entries are keyed by every descriptor (`name@range`) that resolved to
+ * them. Berry prefixes npm ranges with `npm:` in keys but not in the
+ * dependency lists, so both spellings are tried.
+ */
+function parseYarnLockfile(
+  content: string,
+  rootDependencies: Dependencies
+): Omit<LockfileGraph, 'lockfile'> {
+  const isBerry = /^__metadata:/m.test(content);
+  const doc = isBerry
+    ? parseIndented(content, splitYamlLine)
+    : parseIndented(content, splitYarnV1Line);
+
+  const byDescriptor = new Map<string, string>();
+  const entries: [string, Tree][] = [];
+
+  for (const [key, entry] of Object.entries(doc)) {
+    if (typeof entry === 'string' || typeof entry.version !== 'string') {
+      continue;
+    }
+
+    const descriptors = key.split(',').map((d) => unquote(d.trim()));
+    const id = `${descriptorName(descriptors[0])}@${entry.version}`;
+
+    for (const descriptor of descriptors) {
+      byDescriptor.set(descriptor, id);
+    }
+    entries.push([id, entry]);
+  }
+
+  const resolve = (name: string, range: string): string | undefined =>
+    byDescriptor.get(`${name}@${range}`) ||
+    byDescriptor.get(`${name}@npm:${range}`);
+
+  const packages = new Map<string, LockedPackage>();
+
+  for (const [id, entry] of entries) {
+    const deps = {
+      ...asDependencies(entry.dependencies),
+      ...asDependencies(entry.optionalDependencies),
+    };
+    const separator = id.lastIndexOf('@');
+
+    packages.set(id, {
+      name: id.slice(0, separator),
+      version: id.slice(separator + 1),
+      dependencies: resolveAll(deps, resolve),
+    });
+  }
+
+  return { packages, roots: resolveAll(rootDependencies, resolve) };
+}
+
+/**
+ * pnpm keys packages as `/name/version` (v5), `/name@version` (v6) or
+ * `name@version` (v9, under `snapshots`), with peer suffixes appended.
+ * Direct dependencies come from the importer of the scanned project.
+ */
+function parsePnpmLockfile(
+  content: string,
+  location: string
+): Omit<LockfileGraph, 'lockfile'> {
+  const doc = parseIndented(content, splitYamlLine);
+  const isLegacy = parseFloat(String(doc.lockfileVersion)) < 6;
+  const source = asTree(doc.snapshots) || asTree(doc.packages) || {};
+  const ids = new Set(Object.keys(source).map(stripSlash));
+
+  const resolve = (name: string, ref: string): string | undefined => {
+    if (ref.startsWith('link:')) return undefined;
+
+    const id = isLegacy ? `${name}/${ref}` : `${name}@${ref}`;
+    if (ids.has(id)) return id;
+
+    // Aliased dependencies reference the target package key directly
+    return ids.has(stripSlash(ref)) ? stripSlash(ref) : undefined;
+  };
+
+  const packages = new Map<string, LockedPackage>();
+
+  for (const [key, value] of Object.entries(source)) {
+    // Entries without dependencies may be written as a flow value (`{}`)
+    const entry = asTree(value) || {};
+    const id = stripSlash(key);
+    const deps = {
+      ...asDependencies(entry.dependencies),
+      ...asDependencies(entry.optionalDependencies),
+    };
+
+    packages.set(id, {
+      ...parsePnpmId(id, isLegacy),
+      dependencies: resolveAll(deps, resolve),
+    });
+  }
+
+  const importer = asTree(asTree(doc.importers)?.[location || '.']) || doc;
+  const roots = {
+    ...asDependencies(importer.dependencies),
+    ...asDependencies(importer.optionalDependencies),
+  };
+
+  return { packages, roots: resolveAll(roots, resolve) };
+}
+
+function parsePnpmId(
+  id: string,
+  isLegacy: boolean
+): { name: string; version: string } {
+  if (isLegacy) {
+    const separator = id.lastIndexOf('/');
+    return {
+      name: id.slice(0, separator),
+      version: id.slice(separator + 1).replace(/_.*$/, ''),
+    };
+  }
+
+  const separator = id.indexOf('@', 1);
+  return {
+    name: id.slice(0, separator),
+    version: id.slice(separator + 1).replace(/\(.*$/, ''),
+  };
+}
+
+/**
+ * Parses the indentation-based structure shared by YAML lockfiles and the
+ * YAML-like yarn v1 format. Only block mappings are needed; sequences and
+ * flow values are kept as plain strings or skipped.
+ */
+function parseIndented(
+  content: string,
+  splitLine: (line: string) => [string, string | undefined] | null
+): Tree {
+  const root: Tree = {};
+  const stack: { indent: number; node: Tree }[] = [{ indent: -1, node: root }];
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const parsed = splitLine(trimmed);
+    if (!parsed) continue;
+
+    const indent = line.length - line.trimStart().length;
+    while (indent <= stack[stack.length - 1].indent) {
+      stack.pop();
+    }
+
+    const [key, value] = parsed;
+    const parent = stack[stack.length - 1].node;
+
+    if (value === undefined) {
+      const node: Tree = {};
+      parent[key] = node;
+      stack.push({ indent, node });
+    } else {
+      parent[key] = value;
+    }
+  }
+
+  return root;
+}
+
+function splitYamlLine(line: string): [string, string | undefined] | null {
+  if (line.startsWith('-')) return null;
+
+  let key: string;
+  let rest: string;
+
+  if (line[0] === '"' || line[0] === "'") {
+    const end = line.indexOf(line[0], 1);
+    if (end === -1 || line[end + 1] !== ':') return null;
+
+    key = line.slice(1, end);
+    rest = line.slice(end + 2);
+  } else {
+    const match = line.match(/^(.*?):(?:\s|$)/);
+    if (!match) return null;
+
+    key = match[1];
+    rest = line.slice(match[0].length);
+  }
+
+  rest = rest.replace(/\s+#.*$/, '').trim();
+
+  return [key, rest === '' ? undefined : unquote(rest)];
+}
+
+function splitYarnV1Line(line: string): [string, string | undefined] | null {
+  if (line.endsWith(':')) return [line.slice(0, -1), undefined];
+
+  const match = line.match(/^("[^"]*"|\S+)\s+(.*)$/);
+  return match ? [unquote(match[1]), unquote(match[2])] : null;
+}
+
+function readProductionDependencies(projectPath: string): Dependencies {
+  try {
+    const packageJson: PackageJson = JSON.parse(
+      fs.readFileSync(path.join(projectPath, 'package.json'), 'utf-8')
+    );
+    return {
+      ...packageJson.dependencies,
+      ...packageJson.optionalDependencies,
+    };
+  } catch {
+    return {};
+  }
+}
+
+function resolveAll(
+  dependencies: Dependencies,
+  resolve: (name: string, range: string) => string | undefined
+): string[] {
+  return Object.entries(dependencies)
+    .map(([name, range]) => resolve(name, range))
+    .filter((id): id is string => id !== undefined);
+}
+
+/**
+ * pnpm v6+ importers list `{ specifier, version }` objects, everything else
+ * maps names straight to a range or version.
+ */
+function asDependencies(value: string | Tree | undefined): Dependencies {
+  const deps: Dependencies = {};
+
+  for (const [name, ref] of Object.entries(asTree(value) || {})) {
+    const version = typeof ref === 'string' ? ref : ref.version;
+    if (typeof version === 'string') deps[name] = version;
+  }
+
+  return deps;
+}
+
+function asTree(value: string | Tree | undefined): Tree | undefined {
+  return typeof value === 'object' ? value : undefined;
+}
+
+function descriptorName(descriptor: string): string {
+  return descriptor.slice(0, descriptor.indexOf('@', 1));
+}
+
+function nameFromLocation(location: string): string {
+  const index = location.lastIndexOf('node_modules/');
+  return index === -1
+    ? path.posix.basename(location)
+    : location.slice(index + 'node_modules/'.length);
+}
+
+function parentDir(dir: string): string {
+  const parent = path.posix.dirname(dir);
+  return parent === '.' ? '' : parent;
+}
+
+function stripSlash(key: string): string {
+  return key.replace(/^\//, '');
+}
+
+function unquote(value: string): string {
+  return /^(['"]).*\1$/.test(value) ? value.slice(1, -1) : value;
+}
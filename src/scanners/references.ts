@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { ScanConfig } from '../types';
+import {
+  IMPORT_SOURCE_GLOB,
+  STYLESHEET_GLOB,
+  STYLESHEET_PATTERN,
+  FONT_EXTENSIONS,
+} from '../constants';
+import { ParsedFile, parseFile, getModuleReferences } from './ast';
+
+export interface AssetReferences {
+  /** Project-relative paths loaded with `require()` or `import` */
+  paths: Set<string>;
+  /** Lowercase file names from other strings: `uri`, CSS `url()`, ... */
+  names: Set<string>;
+  /** Every string literal, normalized for font family matching */
+  strings: Set<string>;
+}
+
+/**
+ * Collects everything in the sources that may point at an asset. Module
+ * specifiers resolve to exact paths; any other string can only be matched
+ * by file name, which errs on the side of treating assets as used.
+ * Returns null when the project has no source files to compare against.
+ */
+export async function collectAssetReferences(
+  projectPath: string,
+  config: ScanConfig
+): Promise<AssetReferences | null> {
+  const { glob } = await import('glob');
+  const options = { cwd: projectPath, ignore: config.ignorePatterns };
+  const sourceFiles = await glob(IMPORT_SOURCE_GLOB, options);
+  const styleFiles = await glob(STYLESHEET_GLOB, options);
+
+  if (sourceFiles.length === 0 && styleFiles.length === 0) return null;
+
+  const files: AssetReferences[] = [];
+
+  for (const file of [...sourceFiles, ...styleFiles]) {
+    try {
+      const content = fs.readFileSync(path.join(projectPath, file), 'utf-8');
+      files.push(collectFileReferences(file, content));
+    } catch {
+      // Skip unreadable files
+    }
+  }
+
+  return mergeAssetReferences(files);
+}
+
+/**
+ * The references of one source or stylesheet, so callers that keep files
+ * cached (watch mode) can update them one file at a time.
+ */
+export function collectFileReferences(
+  file: string,
+  content: string
+): AssetReferences {
+  const references = createReferences();
+
+  if (STYLESHEET_PATTERN.test(file)) {
+    collectFromCSS(content, references);
+  } else {
+    collectFromSource(parseFile(file, content), references);
+  }
+
+  return references;
+}
+
+export function mergeAssetReferences(
+  files: AssetReferences[]
+): AssetReferences {
+  const references = createReferences();
+
+  for (const file of files) {
+    file.paths.forEach((value) => references.paths.add(value));
+    file.names.forEach((value) => references.names.add(value));
+    file.strings.forEach((value) => references.strings.add(value));
+  }
+
+  return references;
+}
+
+/**
+ * Checks an asset against the references. `@2x`/`@3x` variants count as
+ * referenced through their base name, the way React Native resolves them.
+ */
+export function isAssetReferenced(
+  file: string,
+  references: AssetReferences
+): boolean {
+  const baseFile = stripScale(file.split(path.sep).join('/'));
+  const name = path.posix.basename(baseFile).toLowerCase();
+  const stem = name.replace(/\.[^.]+$/, '');
+
+  if (references.paths.has(baseFile)) return true;
+  if (references.names.has(name) || references.names.has(stem)) return true;
+
+  if (!FONT_EXTENSIONS.includes(path.posix.extname(name))) return false;
+
+  // Fonts are referenced by family name, e.g. `fontFamily: 'Inter-Bold'`
+  // for Inter-Bold.ttf, or `'Open Sans'` for OpenSans-Regular.ttf
+  const family = normalizeFamily(stem);
+  return [...references.strings].some(
+    (value) =>
+      value === family || (value.length >= 4 && family.startsWith(value))
+  );
+}
+
+/**
+ * `icons/logo@2x.png` -> `icons/logo.png`.
+ */
+export function stripScale(file: string): string {
+  return file.replace(/@\d+(\.\d+)?x(\.[^./]+)$/, '$2');
+}
+
+// Helper functions
+
+function createReferences(): AssetReferences {
+  return { paths: new Set(), names: new Set(), strings: new Set() };
+}
+
+function collectFromSource(
+  parsed: ParsedFile,
+  references: AssetReferences
+): void {
+  const dir = path.posix.dirname(parsed.file.split(path.sep).join('/'));
+
+  for (const { specifier } of getModuleReferences(parsed)) {
+    if (specifier.startsWith('.')) {
+      references.paths.add(stripScale(path.posix.join(dir, specifier)));
+    }
+    // Aliased paths such as `@assets/logo.png` can only match by name
+    addName(specifier, references);
+  }
+
+  for (const node of parsed.nodes) {
+    if (
+      ts.isStringLiteralLike(node) ||
+      ts.isTemplateHead(node) ||
+      ts.isTemplateMiddle(node) ||
+      ts.isTemplateTail(node)
+    ) {
+      addString(node.text, references);
+    }
+  }
+}
+
+function collectFromCSS(content: string, references: AssetReferences): void {
+  for (const match of content.matchAll(/url\(\s*['"]?([^'")]+)['"]?\s*\)/g)) {
+    addName(match[1], references);
+  }
+
+  for (const match of content.matchAll(/font-family\s*:\s*([^;}]+)/g)) {
+    for (const family of match[1].split(',')) {
+      references.strings.add(normalizeFamily(family.replace(/['"]/g, '')));
+    }
+  }
+}
+
+/**
+ * Handles any string in code: CSS-in-JS `url()`, `uri` values such as
+ * `asset:/logo.png` or Android resource names, and font family names.
+ */
+function addString(value: string, references: AssetReferences): void {
+  for (const match of value.matchAll(/url\(\s*['"]?([^'")]+)['"]?\s*\)/g)) {
+    addName(match[1], references);
+  }
+
+  if (/^[\w./:@-]+$/.test(value) && !/^(https?|data):/.test(value)) {
+    addName(value, references);
+  }
+
+  const family = normalizeFamily(value);
+  if (family) references.strings.add(family);
+}
+
+function addName(value: string, references: AssetReferences): void {
+  const name = path.posix.basename(stripScale(value.split(/[?#]/)[0]));
+  if (name) references.names.add(name.toLowerCase());
+}
+
+function normalizeFamily(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
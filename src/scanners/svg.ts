@@ -0,0 +1,92 @@
+import { SVG_EDITORS, SVG_MAX_DECIMALS } from '../constants';
+
+export interface SvgAnalysis {
+  size: number;
+  /** Number of elements */
+  nodes: number;
+  paths: number;
+  /** Drawing commands across every `d` attribute */
+  pathCommands: number;
+  embeddedRasters: number;
+  /** Decoded bytes of base64 raster images in data URIs */
+  embeddedRasterBytes: number;
+  /** Editors whose namespaces or generator comments were found */
+  editors: string[];
+  comments: number;
+  /** Numbers written with more than SVG_MAX_DECIMALS decimals */
+  preciseNumbers: number;
+  /** Estimated size after removing metadata, comments and precision */
+  optimizedSize: number;
+}
+
+/**
+ * Analyzes SVG markup with a light tokenizer, which is enough to count
+ * elements and attributes without a full XML parser.
+ */
+export function analyzeSVG(content: string): SvgAnalysis {
+  const rasters = [
+    ...content.matchAll(
+      /data:image\/(?:png|jpe?g|gif|webp);base64,([A-Za-z0-9+/=\s]+)/g
+    ),
+  ];
+  // Base64 payloads would skew every other count
+  const markup = content.replace(/data:[^"')]+/g, '');
+  const withoutComments = markup.replace(/<!--[\s\S]*?-->/g, '');
+  const pathData = [...withoutComments.matchAll(/\sd="([^"]*)"/g)].map(
+    (match) => match[1]
+  );
+  const precisePattern = new RegExp(
+    `\\d*\\.\\d{${SVG_MAX_DECIMALS + 1},}`,
+    'g'
+  );
+
+  return {
+    size: Buffer.byteLength(content),
+    nodes: (withoutComments.match(/<[a-zA-Z][\w:.-]*/g) || []).length,
+    paths: (withoutComments.match(/<path\b/g) || []).length,
+    pathCommands: pathData.reduce(
+      (total, d) => total + (d.match(/[MmLlHhVvCcSsQqTtAaZz]/g) || []).length,
+      0
+    ),
+    embeddedRasters: rasters.length,
+    embeddedRasterBytes: rasters.reduce(
+      (total, match) =>
+        total + Math.floor((match[1].replace(/\s/g, '').length * 3) / 4),
+      0
+    ),
+    editors: SVG_EDITORS.filter(({ pattern }) => pattern.test(markup)).map(
+      ({ name }) => name
+    ),
+    comments: (markup.match(/<!--[\s\S]*?-->/g) || []).length,
+    preciseNumbers: (withoutComments.match(precisePattern) || []).length,
+    optimizedSize: Buffer.byteLength(optimize(content)),
+  };
+}
+
+// Helper functions
+
+/**
+ * Approximates what an optimizer such as SVGO removes by default.
+ */
+function optimize(content: string): string {
+  const editorPrefixes = 'inkscape|sodipodi|sketch|i|x|graph';
+  const truncate = new RegExp(`(\\.\\d{${SVG_MAX_DECIMALS}})\\d+`, 'g');
+
+  return content
+    .replace(/<\?xml[\s\S]*?\?>/g, '')
+    .replace(/<!DOCTYPE[^>]*>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<metadata[\s\S]*?<\/metadata>/g, '')
+    .replace(/<(sodipodi|inkscape|sketch|i):[\w-]+[^>]*\/>/g, '')
+    .replace(
+      new RegExp(
+        `\\s(?:xmlns:(?:${editorPrefixes})|(?:${editorPrefixes}):[\\w-]+)="[^"]*"`,
+        'g'
+      ),
+      ''
+    )
+    .replace(truncate, '$1')
+    .replace(/>\s+</g, '><')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
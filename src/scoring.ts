@@ -0,0 +1,153 @@
+import {
+  Category,
+  CategoryScore,
+  Issue,
+  ScanConfig,
+  ScanCoverage,
+  ScanResult,
+  ScoreDeduction,
+  ScoringConfig,
+  Severity,
+} from './types';
+import { CATEGORY_SECTIONS } from './constants';
+import { getRules } from './rules';
+
+/**
+ * Scores each scanned category separately, then combines the sub-scores by
+ * their configured weights. Every issue subtracts its severity's penalty
+ * from its category's 100 points. Code penalties are divided by the amount
+ * of code scanned (per `codeLinesPerUnit` lines), so findings count by
+ * density rather than by total and large apps are not pinned at 0.
+ */
+export function calculateResult(
+  issues: Issue[],
+  config: ScanConfig,
+  suppressed: number,
+  coverage: ScanCoverage
+): ScanResult {
+  const { scoring } = config;
+  const scanned = CATEGORY_SECTIONS.map(({ category }) => category).filter(
+    (category) =>
+      coverage.categories.includes(category) ||
+      issues.some((issue) => issue.category === category)
+  );
+  const totalWeight = sum(
+    scanned.map((category) => categoryWeight(scoring, category))
+  );
+
+  const categories = scanned.map((category) =>
+    scoreCategory(
+      category,
+      issues.filter((issue) => issue.category === category),
+      config,
+      coverage,
+      totalWeight > 0 ? categoryWeight(scoring, category) / totalWeight : 0
+    )
+  );
+
+  const score =
+    totalWeight > 0
+      ? Math.round(sum(categories.map((c) => c.score * c.weight)))
+      : 100;
+
+  return {
+    score,
+    issues,
+    summary: {
+      critical: issues.filter((i) => i.severity === 'critical').length,
+      warning: issues.filter((i) => i.severity === 'warning').length,
+      info: issues.filter((i) => i.severity === 'info').length,
+      passed: sum(categories.map((c) => c.passed)),
+      suppressed,
+    },
+    categories,
+    coverage,
+  };
+}
+
+/**
+ * Combines the coverage of several scans, e.g. of workspace packages.
+ */
+export function mergeCoverage(coverages: ScanCoverage[]): ScanCoverage {
+  return {
+    categories: CATEGORY_SECTIONS.map(({ category }) => category).filter(
+      (category) => coverages.some((c) => c.categories.includes(category))
+    ),
+    codeFiles: sum(coverages.map((c) => c.codeFiles)),
+    codeLines: sum(coverages.map((c) => c.codeLines)),
+  };
+}
+
+// Helper functions
+
+/**
+ * A check counts as run when its category was scanned and the rule is not
+ * turned off; it passed when it reported nothing.
+ */
+function scoreCategory(
+  category: Category,
+  issues: Issue[],
+  config: ScanConfig,
+  coverage: ScanCoverage,
+  weight: number
+): CategoryScore {
+  const { scoring } = config;
+  const checks = getRules().filter(
+    (rule) => rule.category === category && config.rules[rule.id] !== 'off'
+  );
+  const failed = new Set(issues.map((issue) => issue.rule));
+  const divisor =
+    category === 'code' && scoring.codeLinesPerUnit > 0
+      ? Math.max(1, coverage.codeLines / scoring.codeLinesPerUnit)
+      : 1;
+
+  const grouped = new Map<string, ScoreDeduction>();
+  for (const issue of issues) {
+    const key = `${issue.rule}\0${issue.severity}`;
+    const deduction = grouped.get(key) || {
+      rule: issue.rule,
+      severity: issue.severity,
+      count: 0,
+      points: 0,
+    };
+
+    deduction.count++;
+    deduction.points += penalty(scoring, issue.severity) / divisor;
+    grouped.set(key, deduction);
+  }
+
+  const deductions = [...grouped.values()]
+    .map((deduction) => ({
+      ...deduction,
+      points: Math.round(deduction.points * 10) / 10,
+    }))
+    .sort((a, b) => b.points - a.points || a.rule.localeCompare(b.rule));
+  const lost = sum(deductions.map((deduction) => deduction.points));
+
+  return {
+    category,
+    score: Math.round(Math.max(0, Math.min(100, 100 - lost))),
+    weight,
+    checks: checks.length,
+    passed: checks.filter((rule) => !failed.has(rule.id)).length,
+    deductions,
+  };
+}
+
+function categoryWeight(scoring: ScoringConfig, category: Category): number {
+  if (category === 'dependency') return scoring.dependencyWeight;
+  if (category === 'asset') return scoring.assetWeight;
+
+  return scoring.codeWeight;
+}
+
+function penalty(scoring: ScoringConfig, severity: Severity): number {
+  if (severity === 'critical') return scoring.criticalPenalty;
+  if (severity === 'warning') return scoring.warningPenalty;
+
+  return scoring.infoPenalty;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Issue } from './types';
+import { SUPPRESSION_PATTERN, SOURCE_FILE_PATTERN } from './constants';
+
+interface FileSuppressions {
+  file: string[] | null;
+  lines: Map<number, string[] | null>;
+}
+
+/**
+ * Removes issues silenced by comments in the scanned source. Supported
+ * directives are `perf-scan-disable-next-line`, `perf-scan-disable-line` and
+ * the file-level `perf-scan-disable`, each optionally followed by rule IDs
+ * (`// perf-scan-disable-next-line code/console`). A directive without rule
+ * IDs silences every rule. Returns the remaining issues and how many were
+ * suppressed.
+ */
+export function applySuppressions(
+  projectPath: string,
+  issues: Issue[]
+): { issues: Issue[]; suppressed: number } {
+  const cache = new Map<string, FileSuppressions | null>();
+  const remaining: Issue[] = [];
+  let suppressed = 0;
+
+  for (const issue of issues) {
+    if (!issue.file) {
+      remaining.push(issue);
+      continue;
+    }
+
+    if (!cache.has(issue.file)) {
+      cache.set(issue.file, readSuppressions(projectPath, issue.file));
+    }
+
+    const directives = cache.get(issue.file);
+    if (directives && isSuppressed(issue, directives)) {
+      suppressed++;
+    } else {
+      remaining.push(issue);
+    }
+  }
+
+  return { issues: remaining, suppressed };
+}
+
+/**
+ * Builds a matcher over the directives in one file's content, for callers
+ * that need to check a location before any issue exists.
+ */
+export function createSuppressionMatcher(
+  content: string
+): (rule: string, line: number) => boolean {
+  if (!content.includes('perf-scan-disable')) return () => false;
+
+  const directives = parseSuppressions(content);
+  return (rule, line) => isSuppressed({ rule, line }, directives);
+}
+
+// Helper functions
+
+function parseSuppressions(content: string): FileSuppressions {
+  const result: FileSuppressions = { file: [], lines: new Map() };
+  let fileWide = false;
+
+  content.split('\n').forEach((line, index) => {
+    for (const match of line.matchAll(SUPPRESSION_PATTERN)) {
+      const [, kind, ruleList] = match;
+      const rules = parseRuleList(ruleList);
+
+      if (kind === 'disable') {
+        if (rules === null) {
+          fileWide = true;
+        } else {
+          result.file?.push(...rules);
+        }
+        continue;
+      }
+
+      const target = kind === 'disable-next-line' ? index + 2 : index + 1;
+      const existing = result.lines.get(target);
+      result.lines.set(
+        target,
+        rules === null || existing === null
+          ? null
+          : [...(existing || []), ...rules]
+      );
+    }
+  });
+
+  if (fileWide) {
+    result.file = null;
+  }
+
+  return result;
+}
+
+function readSuppressions(
+  projectPath: string,
+  file: string
+): FileSuppressions | null {
+  if (!SOURCE_FILE_PATTERN.test(file)) return null;
+
+  try {
+    const content = fs.readFileSync(path.join(projectPath, file), 'utf-8');
+    if (!content.includes('perf-scan-disable')) return null;
+
+    return parseSuppressions(content);
+  } catch {
+    // Skip unreadable files
+    return null;
+  }
+}
+
+function parseRuleList(ruleList: string): string[] | null {
+  const rules = ruleList
+    .replace(/\*\/.*$/, '')
+    .split(/[\s,]+/)
+    .filter((rule) => rule.includes('/'));
+
+  return rules.length > 0 ? rules : null;
+}
+
+function isSuppressed(
+  issue: Pick<Issue, 'rule' | 'line'>,
+  directives: FileSuppressions
+): boolean {
+  if (matchesRule(directives.file, issue.rule)) {
+    return true;
+  }
+
+  if (issue.line === undefined || !directives.lines.has(issue.line)) {
+    return false;
+  }
+
+  return matchesRule(directives.lines.get(issue.line) ?? null, issue.rule);
+}
+
+function matchesRule(rules: string[] | null, rule: string): boolean {
+  return rules === null || rules.includes(rule);
+}
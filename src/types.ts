@@ -1,14 +1,29 @@
 export type Severity = 'critical' | 'warning' | 'info';
 
+export type Category = 'dependency' | 'asset' | 'code';
+
 export interface Issue {
   severity: Severity;
-  category: 'dependency' | 'asset' | 'code';
+  category: Category;
+  rule: string;
   title: string;
   file?: string;
   line?: number;
+  column?: number;
+  package?: string;
   message: string;
   suggestion?: string;
   impact?: string;
+  /** Bytes the finding costs, summed per rule in the score breakdown */
+  size?: number;
+  /** Fix proposed by `--ai-fix` */
+  aiFix?: AIFix;
+}
+
+export interface AIFix {
+  explanation: string;
+  /** Unified diff against the scanned file, when the model changed code */
+  patch?: string;
 }
 
 export interface ScanResult {
@@ -18,20 +33,320 @@ export interface ScanResult {
     critical: number;
     warning: number;
     info: number;
+    /** Checks that ran and found nothing */
     passed: number;
+    suppressed: number;
   };
+  /** Sub-score per category that was scanned, with what it lost points for */
+  categories: CategoryScore[];
+  coverage: ScanCoverage;
+  baseline?: BaselineSummary;
+  packages?: PackageResult[];
+  /** Rewrites applied by `--fix` before this scan */
+  fixes?: AppliedFix[];
+  /** Outcome of the CI gating policy, set by the CLI */
+  policy?: PolicyResult;
+}
+
+/**
+ * What a scan looked at: the categories whose checks ran, and the amount of
+ * code read, which code penalties are normalized by.
+ */
+export interface ScanCoverage {
+  categories: Category[];
+  codeFiles: number;
+  codeLines: number;
+}
+
+export interface CategoryScore {
+  category: Category;
+  score: number;
+  /** Share of the overall score, from 0 to 1 */
+  weight: number;
+  checks: number;
+  passed: number;
+  /** Points lost per rule and severity, largest first */
+  deductions: ScoreDeduction[];
+}
+
+export interface ScoreDeduction {
+  rule: string;
+  severity: Severity;
+  count: number;
+  points: number;
+}
+
+export interface PackageResult extends ScanResult {
+  name: string;
+  path: string;
+}
+
+export interface WorkspacePackage {
+  name: string;
+  /** Absolute path of the package directory */
+  path: string;
+  /** Path relative to the workspace root, '' for the root itself */
+  relativePath: string;
+}
+
+export interface BaselineEntry {
+  fingerprint: string;
+  rule: string;
+  title: string;
+  file?: string;
+}
+
+export interface Baseline {
+  version: number;
+  createdAt: string;
+  issues: BaselineEntry[];
+}
+
+export interface BaselineSummary {
+  file: string;
+  new: number;
+  existing: number;
+  fixed: BaselineEntry[];
+}
+
+export interface AppliedFix {
+  rule: string;
+  file: string;
+  line: number;
+  description: string;
+}
+
+export interface HistoryEntry {
+  date: string;
+  sha?: string;
+  branch?: string;
+  score: number;
+  critical: number;
+  warning: number;
+  info: number;
+  suppressed: number;
+  /** Issue counts per category */
+  categories: Record<Category, number>;
+}
+
+export interface CountDelta {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface ChangedIssue {
+  before: Issue;
+  after: Issue;
+}
+
+export interface ReportComparison {
+  score: CountDelta;
+  summary: Record<Severity, CountDelta>;
+  newIssues: Issue[];
+  resolvedIssues: Issue[];
+  /** Issues found in both reports with a different severity or message */
+  changedIssues: ChangedIssue[];
+  unchanged: number;
+  /** AI analysis embedded in the newer report */
+  aiSuggestions?: string;
+}
+
+export interface IssueGroup {
+  severity: Severity;
+  title: string;
+  issues: Issue[];
+}
+
+export interface RuleMeta {
+  id: string;
+  category: Category;
+  title: string;
+  description: string;
+}
+
+export type OutputFormat =
+  | 'console'
+  | 'json'
+  | 'sarif'
+  | 'html'
+  | 'markdown'
+  | 'github';
+
+export type AIProviderName =
+  | 'openai'
+  | 'anthropic'
+  | 'azure'
+  | 'openai-compatible';
+
+export interface AISettings {
+  provider: AIProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
 }
 
 export interface ScanOptions {
   path: string;
   ai: boolean;
-  apiKey?: string;
+  /** Set when `--ai` or `--ai-fix` is given */
+  aiSettings?: AISettings;
+  aiFix: boolean;
+  /** Write the proposed AI fixes to this file as one patch */
+  aiFixPatch?: string;
   verbose: boolean;
-  json: boolean;
+  format: OutputFormat;
+  output?: string;
+  baseline?: string;
+  writeBaseline?: string;
+  config: ScanConfig;
+  configSource?: string;
+  plugins: PerfScanPlugin[];
+  packages: string[];
+  fix: boolean;
+  fixDryRun: boolean;
+  /** Only scan files changed since this git ref */
+  changedSince?: string;
+  /** Only scan files staged in git */
+  staged: boolean;
+  onlyChangedLines: boolean;
+  watch: boolean;
+  /** Append this run to the history file */
+  recordHistory: boolean;
+  /** Fail when the score dropped more than this since the last main-branch run */
+  failOnRegression?: number;
+  /** The config policy with command line overrides applied */
+  policy: PolicyConfig;
+}
+
+export interface Thresholds {
+  imageSizeWarning: number;
+  imageSizeCritical: number;
+  fontSizeWarning: number;
+  totalAssetsWarning: number;
+  webpSuggestionThreshold: number;
+  resolutionVariantThreshold: number;
+  imageMaxDimension: number;
+  svgMaxNodes: number;
+  svgMaxPathCommands: number;
+  /** Estimated optimized size above which react-native-svg icons should be PNGs */
+  svgRasterizeSize: number;
+  /** Estimated min+gzip bytes of a production dependency */
+  dependencySizeWarning: number;
+  dependencySizeCritical: number;
+  largeFileLines: number;
+  consoleWarningThreshold: number;
+  inlineFunctionThreshold: number;
+  inlineStyleThreshold: number;
+  heavyRenderMapThreshold: number;
+  memoLineThreshold: number;
+  highDependencyCount: number;
+  largeObjectChars: number;
+}
+
+export interface ScoringConfig {
+  criticalPenalty: number;
+  warningPenalty: number;
+  infoPenalty: number;
+  /** Relative weight of each category in the overall score */
+  dependencyWeight: number;
+  assetWeight: number;
+  codeWeight: number;
+  /** Code penalties are divided by the number of units of this many lines */
+  codeLinesPerUnit: number;
+}
+
+export type RuleSetting = Severity | 'off';
+
+/**
+ * When a scan fails the build. `failOn` entries are a severity, optionally
+ * limited to a category (`warning:asset`); any issue at that severity or
+ * above fails.
+ */
+export interface PolicyConfig {
+  failOn: string[];
+  minScore?: number;
+  maxWarnings?: number;
+  /** Report violations but always exit with code 0 */
+  neverFail: boolean;
+}
+
+export interface PolicyViolation {
+  /** The option that tripped, e.g. `--min-score` */
+  policy: string;
+  message: string;
+}
+
+export interface PolicyResult {
+  passed: boolean;
+  /** False when violations are reported but do not fail the run */
+  enforced: boolean;
+  violations: PolicyViolation[];
+}
+
+export interface ScanConfig {
+  thresholds: Thresholds;
+  scoring: ScoringConfig;
+  policy: PolicyConfig;
+  ignorePatterns: string[];
+  codeIgnorePatterns: string[];
+  rules: Record<string, RuleSetting>;
+  plugins: PluginSpec[];
+}
+
+/**
+ * A plugin entry in config: a package name or a path relative to the
+ * project, optionally paired with options passed to a plugin factory.
+ */
+export type PluginSpec = string | [string, Record<string, unknown>];
+
+/**
+ * The package.json fields the scanners read. Values come straight from
+ * JSON, so check their type before relying on them.
+ */
+export interface PackageJson {
+  name?: string;
+  version?: string;
+  main?: string;
+  bin?: string | Record<string, string>;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  workspaces?: string[] | { packages?: string[] };
+  [field: string]: unknown;
+}
+
+export type PluginIssue = Omit<Issue, 'category'> & { category?: Category };
+
+export interface PluginContext {
+  /** Absolute path of the scanned project */
+  projectPath: string;
+  /** Project files relative to `projectPath`, honoring ignore patterns */
+  files: string[];
+  /** Parsed package.json of the project */
+  packageJson: PackageJson;
+  config: ScanConfig;
+  /** Reads a project file (relative path) as UTF-8, cached per scan */
+  readFile(file: string): string;
+  /** Reports an issue. The rule must be declared in the plugin's `rules` */
+  report(issue: PluginIssue): void;
+}
+
+export interface PerfScanPlugin {
+  name: string;
+  rules?: RuleMeta[];
+  scan(context: PluginContext): void | Promise<void>;
 }
 
 export interface HeavyDependency {
   name: string;
-  size: string;
   alternative: string;
 }
+
+export interface Lockfile {
+  file: string;
+  /** package.json field used to pin a single version */
+  overrides: string;
+}
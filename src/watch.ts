@@ -0,0 +1,545 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { Baseline, Issue, ScanOptions } from './types';
+import {
+  CODE_EXTENSIONS,
+  CODE_FILE_PATTERN,
+  IMPORT_SOURCE_GLOB,
+  IMPORT_SOURCE_PATTERN,
+  STYLESHEET_GLOB,
+  STYLESHEET_PATTERN,
+  ASSET_GLOB,
+  IMAGE_EXTENSIONS,
+  FONT_EXTENSIONS,
+  LOCKFILES,
+  WATCH_DEBOUNCE_MS,
+  EXIT_SCANNER_ERROR,
+} from './constants';
+import {
+  scanDeclaredDependencies,
+  checkDependencyUsage,
+} from './scanners/dependencies';
+import { scanAssets } from './scanners/assets';
+import { scanCodeFile, countLines } from './scanners/code';
+import {
+  AssetReferences,
+  collectFileReferences,
+  mergeAssetReferences,
+} from './scanners/references';
+import {
+  FileImports,
+  ImportScope,
+  collectFileImports,
+  createImportGraph,
+  readImportScope,
+} from './scanners/imports';
+import { applyRuleSettings } from './config';
+import { runPlugin, listProjectFiles, PluginError } from './plugins';
+import { applySuppressions } from './suppressions';
+import { createBaseline, compareWithBaseline } from './baseline';
+import { calculateResult } from './scoring';
+import { printScore, printIssues, printWatchDelta } from './reporter';
+
+interface WatchState {
+  /** Code issues per source file, so one edit re-reads one file */
+  code: Map<string, CodeFile>;
+  /** What each source file and stylesheet references, for the same reason */
+  sources: Map<string, SourceFile>;
+  importScope: ImportScope;
+  assets: Issue[];
+  assetFiles: Set<string>;
+  dependencies: Issue[];
+  /** Unused, undeclared and misplaced dependencies, which follow the imports */
+  dependencyUsage: Issue[];
+  plugins: Issue[];
+  /** Snapshot of the last reported issues, for the delta */
+  previous: Baseline;
+}
+
+interface CodeFile {
+  issues: Issue[];
+  lines: number;
+}
+
+interface SourceFile {
+  references: AssetReferences;
+  imports: FileImports;
+}
+
+interface ChangeBatch {
+  code: string[];
+  removedCode: string[];
+  sources: string[];
+  removedSources: string[];
+  assets: boolean;
+  dependencies: boolean;
+}
+
+interface DirectoryWatcher {
+  /**
+   * Starts watching directories among `files` that were just created and
+   * returns the files already inside them, which sent no events of their own.
+   */
+  expand(files: string[]): Promise<string[]>;
+  close(): void;
+}
+
+/**
+ * Scans the project, then keeps running and re-scans on file changes. Only
+ * the affected scanners run again: code checks for the changed source files,
+ * asset checks when an asset or an asset reference changes, dependency
+ * checks when package.json or a lockfile changes, and the import-based
+ * dependency checks when a source file changes. Plugins run on every change
+ * since they may look at any file. Each run prints the score and the issues
+ * added and resolved since the previous run.
+ */
+export async function watchProject(options: ScanOptions): Promise<void> {
+  const state = await scanAll(options);
+  report(options, state, []);
+
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> = Promise.resolve();
+
+  const watcher = await watchDirectories(options, (file) => {
+    pending.add(file);
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const files = [...pending];
+      pending.clear();
+
+      running = running
+        .then(async () => {
+          const created = await watcher.expand(files);
+          await rescan(options, state, [...files, ...created]);
+        })
+        .catch((error) => {
+          console.error(chalk.red('Error during scan:'), error);
+        });
+    }, WATCH_DEBOUNCE_MS);
+  });
+
+  process.on('SIGINT', () => {
+    watcher.close();
+    process.exit(0);
+  });
+}
+
+// Helper functions
+
+async function scanAll(options: ScanOptions): Promise<WatchState> {
+  const { path: projectPath, config } = options;
+  const { glob } = await import('glob');
+  const codeFiles = await glob(CODE_EXTENSIONS, {
+    cwd: projectPath,
+    ignore: config.codeIgnorePatterns,
+  });
+  const code = new Map<string, CodeFile>();
+
+  for (const file of codeFiles) {
+    code.set(file, scanFile(projectPath, file, options));
+  }
+
+  const sourceFiles = await glob([IMPORT_SOURCE_GLOB, STYLESHEET_GLOB], {
+    cwd: projectPath,
+    ignore: config.ignorePatterns,
+  });
+  const importScope = await readImportScope(projectPath, config);
+  const sources = new Map<string, SourceFile>();
+
+  for (const file of sourceFiles.sort()) {
+    const source = scanSource(projectPath, file, importScope);
+    if (source) sources.set(file, source);
+  }
+
+  return {
+    code,
+    sources,
+    importScope,
+    assets: await scanAssets(
+      projectPath,
+      config,
+      undefined,
+      mergeReferences(sources)
+    ),
+    assetFiles: new Set(
+      await glob(ASSET_GLOB, {
+        cwd: projectPath,
+        ignore: config.ignorePatterns,
+      })
+    ),
+    dependencies: await scanDeclaredDependencies(projectPath, config),
+    dependencyUsage: checkDependencyUsage(
+      projectPath,
+      createImportGraph(projectPath, mergeImports(sources))
+    ),
+    plugins: await runPlugins(options),
+    previous: createBaseline(projectPath, []),
+  };
+}
+
+async function rescan(
+  options: ScanOptions,
+  state: WatchState,
+  files: string[]
+): Promise<void> {
+  const { path: projectPath, config } = options;
+  const batch = await classifyChanges(options, state, files);
+
+  const sourcesChanged =
+    batch.sources.length > 0 || batch.removedSources.length > 0;
+
+  if (
+    batch.code.length === 0 &&
+    batch.removedCode.length === 0 &&
+    !sourcesChanged &&
+    !batch.assets &&
+    !batch.dependencies
+  ) {
+    return;
+  }
+
+  for (const file of batch.code) {
+    state.code.set(file, scanFile(projectPath, file, options));
+  }
+  for (const file of batch.removedCode) {
+    state.code.delete(file);
+  }
+
+  if (sourcesChanged) {
+    // A new file may be a test or story, which changes how its imports count
+    state.importScope = await readImportScope(projectPath, config);
+  }
+  for (const file of batch.sources) {
+    const source = scanSource(projectPath, file, state.importScope);
+    if (source) {
+      state.sources.set(file, source);
+    } else {
+      state.sources.delete(file);
+    }
+  }
+  for (const file of batch.removedSources) {
+    state.sources.delete(file);
+  }
+
+  if (batch.assets || sourcesChanged) {
+    state.assets = await scanAssets(
+      projectPath,
+      config,
+      undefined,
+      mergeReferences(state.sources)
+    );
+  }
+  if (batch.dependencies) {
+    state.dependencies = await scanDeclaredDependencies(projectPath, config);
+  }
+  if (batch.dependencies || sourcesChanged) {
+    state.dependencyUsage = checkDependencyUsage(
+      projectPath,
+      createImportGraph(projectPath, mergeImports(state.sources))
+    );
+  }
+  if (options.plugins.length > 0) {
+    state.plugins = await runPlugins(options);
+  }
+
+  report(options, state, [
+    ...new Set([
+      ...batch.code,
+      ...batch.removedCode,
+      ...batch.sources,
+      ...batch.removedSources,
+    ]),
+    ...(batch.assets ? ['assets'] : []),
+    ...(batch.dependencies ? ['dependencies'] : []),
+  ]);
+}
+
+/**
+ * Sorts changed paths by the scanner they affect. Paths are matched with the
+ * same ignore patterns as a full scan by globbing each path literally,
+ * which checks the file without walking the tree.
+ */
+async function classifyChanges(
+  options: ScanOptions,
+  state: WatchState,
+  files: string[]
+): Promise<ChangeBatch> {
+  const { path: projectPath, config } = options;
+  const { glob, escape } = await import('glob');
+  const patterns = files.map((file) => escape(file));
+  const codeFiles = new Set(
+    await glob(patterns, {
+      cwd: projectPath,
+      ignore: config.codeIgnorePatterns,
+    })
+  );
+  const projectFiles = new Set(
+    await glob(patterns, { cwd: projectPath, ignore: config.ignorePatterns })
+  );
+  const assetExtensions = [...IMAGE_EXTENSIONS, ...FONT_EXTENSIONS];
+  const batch: ChangeBatch = {
+    code: [],
+    removedCode: [],
+    sources: [],
+    removedSources: [],
+    assets: false,
+    dependencies: false,
+  };
+
+  for (const file of files) {
+    const name = path.normalize(file);
+
+    if (CODE_FILE_PATTERN.test(file)) {
+      if (codeFiles.has(name)) {
+        batch.code.push(name);
+      } else if (state.code.has(name)) {
+        batch.removedCode.push(name);
+      }
+    }
+
+    if (IMPORT_SOURCE_PATTERN.test(file) || STYLESHEET_PATTERN.test(file)) {
+      if (projectFiles.has(name)) {
+        batch.sources.push(name);
+      } else if (state.sources.has(name)) {
+        batch.removedSources.push(name);
+      }
+    }
+
+    const isAsset = assetExtensions.includes(path.extname(file).toLowerCase());
+    if (isAsset && (projectFiles.has(name) || state.assetFiles.has(name))) {
+      batch.assets = true;
+      if (projectFiles.has(name)) {
+        state.assetFiles.add(name);
+      } else {
+        state.assetFiles.delete(name);
+      }
+    }
+
+    if (
+      file === 'package.json' ||
+      LOCKFILES.some((lockfile) => lockfile.file === file)
+    ) {
+      batch.dependencies = true;
+    }
+  }
+
+  return batch;
+}
+
+function scanFile(
+  projectPath: string,
+  file: string,
+  options: ScanOptions
+): CodeFile {
+  try {
+    const content = fs.readFileSync(path.join(projectPath, file), 'utf-8');
+    return {
+      issues: scanCodeFile(file, content, options.config),
+      lines: countLines(content),
+    };
+  } catch {
+    // Deleted between the event and the read
+    return { issues: [], lines: 0 };
+  }
+}
+
+/**
+ * Null when the file cannot be read, e.g. deleted between the event and
+ * the read.
+ */
+function scanSource(
+  projectPath: string,
+  file: string,
+  scope: ImportScope
+): SourceFile | null {
+  try {
+    const content = fs.readFileSync(path.join(projectPath, file), 'utf-8');
+    const hasImports =
+      IMPORT_SOURCE_PATTERN.test(file) && !file.endsWith('.d.ts');
+
+    return {
+      references: collectFileReferences(file, content),
+      imports: hasImports
+        ? collectFileImports(file, content, scope)
+        : new Map(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Null without any source file, like a full scan, so assets are not all
+ * reported as unreferenced.
+ */
+function mergeReferences(
+  sources: Map<string, SourceFile>
+): AssetReferences | null {
+  if (sources.size === 0) return null;
+
+  return mergeAssetReferences(
+    [...sources.values()].map((source) => source.references)
+  );
+}
+
+function mergeImports(sources: Map<string, SourceFile>): FileImports[] {
+  return [...sources.keys()]
+    .sort()
+    .map((file) => (sources.get(file) as SourceFile).imports);
+}
+
+/**
+ * Watches every directory the scan does not ignore, one non-recursive
+ * watcher each, so `node_modules` and `.git` never use up inotify watches.
+ */
+async function watchDirectories(
+  options: ScanOptions,
+  onChange: (file: string) => void
+): Promise<DirectoryWatcher> {
+  const { path: projectPath, config } = options;
+  const { glob, escape } = await import('glob');
+  const watchers = new Map<string, fs.FSWatcher>();
+
+  const watch = (dir: string): void => {
+    if (watchers.has(dir)) return;
+
+    let watcher: fs.FSWatcher;
+    try {
+      watcher = fs.watch(path.join(projectPath, dir), (_event, filename) => {
+        if (!filename) return;
+        onChange(path.posix.join(dir, filename.toString()));
+      });
+    } catch {
+      // Removed again before it could be watched
+      return;
+    }
+
+    watcher.on('error', (error) => {
+      console.error(chalk.red('Error while watching files:'), error);
+      process.exit(EXIT_SCANNER_ERROR);
+    });
+    watchers.set(dir, watcher);
+  };
+
+  const list = async (patterns: string[]): Promise<string[]> =>
+    (
+      await glob(patterns, {
+        cwd: projectPath,
+        ignore: config.ignorePatterns,
+        mark: true,
+      })
+    ).map((file) => file.split(path.sep).join('/'));
+
+  for (const dir of await list(['**/'])) {
+    watch(toDirectory(dir));
+  }
+
+  return {
+    async expand(files) {
+      for (const [dir, watcher] of watchers) {
+        if (!fs.existsSync(path.join(projectPath, dir))) {
+          watcher.close();
+          watchers.delete(dir);
+        }
+      }
+
+      const created = files.filter(
+        (file) =>
+          !watchers.has(file) &&
+          fs.statSync(path.join(projectPath, file), {
+            throwIfNoEntry: false,
+          })?.isDirectory()
+      );
+      if (created.length === 0) return [];
+
+      const found: string[] = [];
+      for (const entry of await list(
+        created.flatMap((dir) => [escape(dir), `${escape(dir)}/**`])
+      )) {
+        if (entry.endsWith('/')) {
+          watch(toDirectory(entry));
+        } else {
+          found.push(entry);
+        }
+      }
+
+      return found;
+    },
+    close() {
+      watchers.forEach((watcher) => watcher.close());
+    },
+  };
+}
+
+function toDirectory(entry: string): string {
+  const dir = entry.replace(/\/$/, '');
+  return dir === '.' ? '' : dir;
+}
+
+async function runPlugins(options: ScanOptions): Promise<Issue[]> {
+  if (options.plugins.length === 0) return [];
+
+  const { path: projectPath, config } = options;
+  const files = await listProjectFiles(projectPath, config);
+  const issues: Issue[] = [];
+
+  for (const plugin of options.plugins) {
+    try {
+      issues.push(...(await runPlugin(plugin, projectPath, config, files)));
+    } catch (error) {
+      if (!(error instanceof PluginError)) throw error;
+      console.error(chalk.yellow(`Warning: ${error.message}`));
+    }
+  }
+
+  return issues;
+}
+
+function report(
+  options: ScanOptions,
+  state: WatchState,
+  changed: string[]
+): void {
+  const { path: projectPath, config } = options;
+  const all = applyRuleSettings(
+    [
+      ...state.dependencies,
+      ...state.dependencyUsage,
+      ...state.assets,
+      ...[...state.code.values()].flatMap((file) => file.issues),
+      ...state.plugins,
+    ],
+    config
+  );
+  const { issues, suppressed } = applySuppressions(projectPath, all);
+  const files = [...state.code.values()];
+  const result = calculateResult(issues, config, suppressed, {
+    categories: ['dependency', 'asset', 'code'],
+    codeFiles: files.length,
+    codeLines: files.reduce((total, file) => total + file.lines, 0),
+  });
+  const delta = compareWithBaseline(projectPath, issues, state.previous);
+
+  if (changed.length > 0) {
+    console.log(
+      chalk.gray(
+        `  [${new Date().toLocaleTimeString()}] Changed: ${changed.join(', ')}`
+      )
+    );
+    console.log('');
+  }
+
+  printScore(result, options.verbose);
+
+  if (changed.length === 0) {
+    printIssues(result.issues, options.verbose);
+  } else {
+    printWatchDelta(delta.newIssues, delta.fixed);
+  }
+
+  state.previous = createBaseline(projectPath, issues);
+  console.log(chalk.gray('  Watching for changes (Ctrl+C to stop)...'));
+  console.log('');
+}
@@ -0,0 +1,162 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Issue, PackageJson, ScanConfig, WorkspacePackage } from './types';
+import { IGNORE_PATTERNS, ROOT_PACKAGE_NAME } from './constants';
+
+export class WorkspaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceError';
+  }
+}
+
+/**
+ * Detects workspace packages declared by npm/Yarn (`workspaces` in
+ * package.json), pnpm (`pnpm-workspace.yaml`) or Lerna (`lerna.json`).
+ * Returns null when the project is not a monorepo.
+ */
+export async function detectWorkspaces(
+  rootPath: string
+): Promise<WorkspacePackage[] | null> {
+  const patterns = [
+    ...readPackageJsonWorkspaces(rootPath),
+    ...readPnpmWorkspaces(rootPath),
+    ...readLernaPackages(rootPath),
+  ];
+
+  if (patterns.length === 0) return null;
+
+  const include = patterns.filter((p) => !p.startsWith('!'));
+  const exclude = patterns
+    .filter((p) => p.startsWith('!'))
+    .map((p) => `${trimSlashes(p.slice(1))}/package.json`);
+
+  const { glob } = await import('glob');
+  const manifests = await glob(
+    include.map((p) => `${trimSlashes(p)}/package.json`),
+    { cwd: rootPath, ignore: [...IGNORE_PATTERNS, ...exclude] }
+  );
+
+  return [...new Set(manifests)]
+    .map((manifest) => path.dirname(manifest).split(path.sep).join('/'))
+    .filter((dir) => dir !== '.')
+    .sort()
+    .map((relativePath) => ({
+      name: readPackageName(path.join(rootPath, relativePath)) || relativePath,
+      path: path.join(rootPath, relativePath),
+      relativePath,
+    }));
+}
+
+/**
+ * The workspace root as a package of its own. Its scan skips every
+ * workspace package directory so files are not counted twice.
+ */
+export function getRootPackage(rootPath: string): WorkspacePackage {
+  return {
+    name: readPackageName(rootPath) || ROOT_PACKAGE_NAME,
+    path: rootPath,
+    relativePath: '',
+  };
+}
+
+export function excludePackages(
+  config: ScanConfig,
+  packages: WorkspacePackage[]
+): ScanConfig {
+  const ignore = packages.map((pkg) => `${pkg.relativePath}/**`);
+
+  return {
+    ...config,
+    ignorePatterns: [...config.ignorePatterns, ...ignore],
+    codeIgnorePatterns: [...config.codeIgnorePatterns, ...ignore],
+  };
+}
+
+/**
+ * Rewrites a package's issues so file paths are relative to the workspace
+ * root and every issue records its package. Dependency issues without a
+ * file point at the package's manifest.
+ */
+export function tagPackageIssues(
+  pkg: WorkspacePackage,
+  issues: Issue[]
+): Issue[] {
+  const prefix = pkg.relativePath ? `${pkg.relativePath}/` : '';
+
+  return issues.map((issue) => {
+    let file = issue.file ? `${prefix}${issue.file}` : undefined;
+
+    if (!file && issue.category === 'dependency') {
+      file = `${prefix}package.json`;
+    }
+
+    return { ...issue, file, package: pkg.name };
+  });
+}
+
+// Helper functions
+
+function readPackageJsonWorkspaces(rootPath: string): string[] {
+  const packageJson = readJSON(path.join(rootPath, 'package.json'));
+  const workspaces = packageJson?.workspaces;
+
+  if (Array.isArray(workspaces)) return workspaces;
+  if (Array.isArray(workspaces?.packages)) return workspaces.packages;
+
+  return [];
+}
+
+function readPnpmWorkspaces(rootPath: string): string[] {
+  const filePath = path.join(rootPath, 'pnpm-workspace.yaml');
+  if (!fs.existsSync(filePath)) return [];
+
+  // Only the `packages:` list is needed, so a line parser avoids a YAML dep
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+    const trimmed = line.replace(/#.*$/, '').trimEnd();
+
+    if (/^packages\s*:/.test(trimmed)) {
+      inPackages = true;
+      continue;
+    }
+
+    if (!inPackages || trimmed === '') continue;
+
+    const item = trimmed.match(/^\s+-\s*(.+)$/);
+    if (!item) {
+      inPackages = false;
+      continue;
+    }
+
+    patterns.push(item[1].trim().replace(/^['"]|['"]$/g, ''));
+  }
+
+  return patterns;
+}
+
+function readLernaPackages(rootPath: string): string[] {
+  const lerna = readJSON(path.join(rootPath, 'lerna.json'));
+
+  return Array.isArray(lerna?.packages) ? lerna.packages : [];
+}
+
+function readPackageName(dir: string): string | undefined {
+  const name = readJSON(path.join(dir, 'package.json'))?.name;
+
+  return typeof name === 'string' ? name : undefined;
+}
+
+function readJSON(filePath: string): PackageJson | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function trimSlashes(pattern: string): string {
+  return pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+}